@@ -0,0 +1,105 @@
+/**
+ * Cleaning of a single file with a recipe, using the same parser, pipeline
+ * and writer as the web app.
+ */
+
+import {
+  CSVDialect,
+  RaggedRowSummary,
+  Recipe,
+  RecipeIssue,
+  applyTypeOverrides,
+  contextAfter,
+  describeStepResult,
+  detectEncoding,
+  encodeText,
+  inferSchema,
+  parseCSV,
+  recipeToPipeline,
+  removeHiddenColumns,
+  runPipeline,
+  serializeCSV,
+  stepLabel,
+  validateRecipe,
+} from '@data-refine/core';
+
+export interface CleanOptions {
+  /** Input delimiter; sniffed when omitted */
+  delimiter?: string;
+  /** Input encoding; detected when omitted */
+  encoding?: string;
+  /** Clean even when the recipe refers to columns the file does not have */
+  allowMissing?: boolean;
+}
+
+export interface FileReport {
+  input: string;
+  output: string | null;
+  status: 'cleaned' | 'failed';
+  encoding: string;
+  dialect: CSVDialect | null;
+  rowsBefore: number;
+  rowsAfter: number;
+  /** Rows of the input whose cell count differs from the headers */
+  ragged: Pick<RaggedRowSummary, 'short' | 'long'>;
+  steps: { step: string; detail: string }[];
+  issues: RecipeIssue[];
+  error?: string;
+}
+
+/**
+ * Clean the raw bytes of a delimited text file. The output keeps the input's
+ * encoding and dialect; it is null when validation failed.
+ */
+export function cleanBytes(
+  bytes: Uint8Array,
+  recipe: Recipe,
+  options: CleanOptions = {}
+): { output: Uint8Array | null, report: Omit<FileReport, 'input' | 'output'> } {
+  const encoding = options.encoding ?? detectEncoding(bytes.subarray(0, 65536)).encoding;
+  // The byte order mark is kept so the dialect records it and the output gets one too
+  const text = new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes);
+
+  const { data, headers, dialect, ragged } = parseCSV(
+    text,
+    options.delimiter ? { delimiter: options.delimiter } : undefined
+  );
+
+  const issues = validateRecipe(recipe, headers);
+  const report = {
+    encoding,
+    dialect,
+    rowsBefore: data.length,
+    rowsAfter: data.length,
+    ragged: { short: ragged.short, long: ragged.long },
+    steps: [] as FileReport['steps'],
+    issues,
+  };
+
+  if (issues.length > 0 && !options.allowMissing) {
+    return { output: null, report: { ...report, status: 'failed' } };
+  }
+
+  const steps = recipeToPipeline(recipe);
+  // Selectors by type see the types the recipe was made with, as in the app
+  const schema = applyTypeOverrides(inferSchema(data, headers), headers, recipe.typeOverrides ?? {});
+  const context = { headers, schema };
+  const results = runPipeline(steps, data, context);
+  const cleaned = results.length > 0 ? results[results.length - 1].data : data;
+  // Column steps may have renamed, moved or hidden columns
+  const { hiddenColumns = [], headers: cleanedHeaders } = contextAfter(results, context);
+  const output = removeHiddenColumns(cleaned, cleanedHeaders, hiddenColumns);
+
+  return {
+    output: encodeText(serializeCSV(output.data, output.headers, dialect), encoding),
+    report: {
+      ...report,
+      status: 'cleaned',
+      rowsAfter: cleaned.length,
+      steps: results.map(result => ({
+        step: stepLabel(steps.find(({ id }) => id === result.stepId)!.type),
+        detail: describeStepResult(result),
+      })),
+    },
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Minimal glob expansion for input patterns: `*`, `?`, `**` and `{a,b}`.
+ * Shells expand unquoted patterns themselves; this handles quoted ones and
+ * shells (such as cmd.exe) that do not expand at all.
+ */
+
+import { Dirent } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+
+const hasMagic = (pattern: string) => /[*?{]/.test(pattern);
+
+/**
+ * Convert a glob pattern using forward slashes into an anchored regex
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches any number of directories, including none
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const options = pattern.slice(i + 1, end).split(',');
+        source += `(?:${options.map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+async function listFiles(directory: string, recursive: boolean): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    // A directory that does not exist matches nothing
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') return [];
+    throw error;
+  }
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) files.push(...(await listFiles(fullPath, true)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Expand a pattern into the matching file paths, sorted. Patterns without
+ * wildcards are returned unchanged so missing files are reported by the reader.
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+  if (!hasMagic(pattern)) return [pattern];
+
+  const normalized = pattern.split(path.sep).join('/');
+  const segments = normalized.split('/');
+  const firstMagic = segments.findIndex(hasMagic);
+  const base = segments.slice(0, firstMagic).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const recursive = normalized.includes('**') || firstMagic < segments.length - 1;
+
+  const regex = globToRegExp(normalized.replace(/^\.\//, ''));
+  const files = await listFiles(base, recursive);
+
+  return files
+    .filter(file => regex.test(file.split(path.sep).join('/').replace(/^\.\//, '')))
+    .sort();
+}
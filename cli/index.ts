@@ -0,0 +1,251 @@
+/**
+ * data-refine command line: runs cleaning recipes saved from the web app over
+ * delimited text files.
+ *
+ *   data-refine clean input.csv --recipe recipe.json -o out.csv
+ *   data-refine clean "exports/*.csv" --recipe recipe.json --out-dir cleaned
+ *   cat input.csv | data-refine clean --recipe recipe.json > out.csv
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Recipe, describeRaggedRows, parseRecipe } from '@data-refine/core';
+import { CleanOptions, FileReport, cleanBytes } from './clean';
+import { expandGlob } from './glob';
+
+const USAGE = `Usage: data-refine clean [inputs...] --recipe <file> [options]
+
+Inputs are file paths or glob patterns (quote patterns such as "data/**/*.csv").
+Use "-" or no inputs to read standard input.
+
+Options:
+  -r, --recipe <file>     Recipe JSON saved from the app (required)
+  -o, --output <file>     Output file, "-" for standard output (single input only)
+  -d, --out-dir <dir>     Directory for the cleaned files
+                          (default: <name>-cleaned<ext> next to each input)
+      --delimiter <char>  Input delimiter (default: sniffed); use "\\t" for tabs
+      --encoding <name>   Input encoding (default: detected)
+      --report <file>     Write the JSON report to a file
+      --allow-missing     Clean files even when the recipe refers to missing columns
+  -q, --quiet             Only print errors
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 a file failed validation or could not be cleaned,
+2 invalid arguments or recipe.`;
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const STDIO = '-';
+
+class UsageError extends Error {}
+
+type ValueOption = 'recipe' | 'output' | 'outDir' | 'delimiter' | 'encoding' | 'report';
+
+interface CliOptions extends Partial<Record<ValueOption, string>> {
+  inputs: string[];
+  allowMissing: boolean;
+  quiet: boolean;
+  help: boolean;
+}
+
+const VALUE_FLAGS: Record<string, ValueOption> = {
+  '-r': 'recipe',
+  '--recipe': 'recipe',
+  '-o': 'output',
+  '--output': 'output',
+  '-d': 'outDir',
+  '--out-dir': 'outDir',
+  '--delimiter': 'delimiter',
+  '--encoding': 'encoding',
+  '--report': 'report',
+};
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { inputs: [], allowMissing: false, quiet: false, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+
+    if (flag in VALUE_FLAGS) {
+      const value = inlineValue ?? args[++i];
+      if (value === undefined) throw new UsageError(`Missing value for ${flag}`);
+      options[VALUE_FLAGS[flag]] = value;
+    } else if (flag === '--allow-missing') {
+      options.allowMissing = true;
+    } else if (flag === '-q' || flag === '--quiet') {
+      options.quiet = true;
+    } else if (flag === '-h' || flag === '--help') {
+      options.help = true;
+    } else if (flag.startsWith('-') && flag !== STDIO) {
+      throw new UsageError(`Unknown option ${flag}`);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+
+  if (options.delimiter === '\\t') options.delimiter = '\t';
+  return options;
+}
+
+async function readStdin(): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+/**
+ * Where the cleaned version of an input goes
+ */
+function outputPath(input: string, options: CliOptions): string {
+  if (options.output) return options.output;
+  if (input === STDIO) return STDIO;
+
+  const { name, ext } = path.parse(input);
+  return path.join(options.outDir ?? path.dirname(input), `${name}-cleaned${ext || '.csv'}`);
+}
+
+async function cleanInput(input: string, recipe: Recipe, options: CliOptions): Promise<FileReport> {
+  const output = outputPath(input, options);
+  const cleanOptions: CleanOptions = {
+    delimiter: options.delimiter,
+    encoding: options.encoding,
+    allowMissing: options.allowMissing,
+  };
+
+  try {
+    const bytes = input === STDIO ? await readStdin() : new Uint8Array(await readFile(input));
+    const { output: cleaned, report } = cleanBytes(bytes, recipe, cleanOptions);
+
+    if (!cleaned) return { input, output: null, ...report };
+
+    if (output === STDIO) {
+      process.stdout.write(cleaned);
+    } else {
+      await mkdir(path.dirname(output), { recursive: true });
+      await writeFile(output, cleaned);
+    }
+    return { input, output, ...report };
+  } catch (error) {
+    return {
+      input,
+      output: null,
+      status: 'failed',
+      encoding: options.encoding ?? '',
+      dialect: null,
+      rowsBefore: 0,
+      rowsAfter: 0,
+      ragged: { short: 0, long: 0 },
+      steps: [],
+      issues: [],
+      error: (error as Error).message,
+    };
+  }
+}
+
+function printReport(report: FileReport, quiet: boolean) {
+  const name = report.input === STDIO ? '<stdin>' : report.input;
+
+  if (report.status === 'failed') {
+    console.error(`✗ ${name}`);
+    if (report.error) console.error(`    ${report.error}`);
+    report.issues.forEach(issue => console.error(`    step ${issue.stepIndex + 1}: ${issue.message}`));
+    return;
+  }
+
+  if (quiet) return;
+  console.error(`✓ ${name} → ${report.output === STDIO ? '<stdout>' : report.output}`);
+  console.error(`    ${report.rowsBefore} → ${report.rowsAfter} rows`);
+  if (report.ragged.short + report.ragged.long > 0) {
+    console.error(`    warning: ${describeRaggedRows(report.ragged)} in the input`);
+  }
+  report.steps.forEach(({ step, detail }) => console.error(`    ${step}: ${detail}`));
+  report.issues.forEach(issue => console.error(`    warning, step ${issue.stepIndex + 1}: ${issue.message}`));
+}
+
+async function clean(options: CliOptions): Promise<number> {
+  if (!options.recipe) throw new UsageError('Missing --recipe');
+
+  let recipe: Recipe;
+  try {
+    recipe = parseRecipe(await readFile(options.recipe, 'utf-8'));
+  } catch (error) {
+    console.error(`Cannot read recipe ${options.recipe}: ${(error as Error).message}`);
+    return EXIT_USAGE;
+  }
+
+  const patterns = options.inputs.length > 0 ? options.inputs : [STDIO];
+  const inputs: string[] = [];
+  for (const pattern of patterns) {
+    let matches: string[];
+    try {
+      matches = pattern === STDIO ? [STDIO] : await expandGlob(pattern);
+    } catch (error) {
+      console.error(`Cannot list files matching ${pattern}: ${(error as Error).message}`);
+      return EXIT_FAILED;
+    }
+    if (matches.length === 0) throw new UsageError(`No files match ${pattern}`);
+    inputs.push(...matches);
+  }
+
+  if (inputs.length > 1 && options.output) {
+    throw new UsageError('--output needs a single input; use --out-dir for several');
+  }
+  if (inputs.filter(input => input === STDIO).length > 1) {
+    throw new UsageError('Standard input can only be read once');
+  }
+
+  const reports: FileReport[] = [];
+  for (const input of inputs) {
+    const report = await cleanInput(input, recipe, options);
+    printReport(report, options.quiet);
+    reports.push(report);
+  }
+
+  if (options.report) {
+    try {
+      await writeFile(options.report, JSON.stringify({ recipe: recipe.name, files: reports }, null, 2));
+    } catch (error) {
+      console.error(`Cannot write report ${options.report}: ${(error as Error).message}`);
+      return EXIT_FAILED;
+    }
+  }
+
+  const failed = reports.filter(report => report.status === 'failed').length;
+  if (failed > 0) {
+    console.error(`${failed} of ${reports.length} files failed`);
+    return EXIT_FAILED;
+  }
+  return 0;
+}
+
+export async function main(args: string[]): Promise<number> {
+  try {
+    const [command, ...rest] = args;
+    const options = parseArgs(rest);
+
+    if (!command || command === '-h' || command === '--help' || options.help) {
+      console.log(USAGE);
+      return command ? 0 : EXIT_USAGE;
+    }
+    if (command !== 'clean') throw new UsageError(`Unknown command ${command}`);
+
+    return await clean(options);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_FAILED;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
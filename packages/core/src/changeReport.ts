@@ -0,0 +1,302 @@
+/**
+ * Change report of a series of operations: every cell an operation changed
+ * and every row it removed, traced back to the rows of the input, with CSV,
+ * JSON and HTML serializers for audit sign-off.
+ */
+
+import { serializeCSV } from './csvUtils';
+import { RemovalReason, StepResult, describeStepResult } from './pipeline';
+
+/**
+ * A cell changed by a step; `row` is the index of the row in the input data
+ * and `column` the header of the column when the step ran
+ */
+export interface CellChange {
+  row: number;
+  column: string;
+  stepId: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * A row removed by a step, with its cells as they were when it was removed
+ */
+export interface RemovedRow {
+  row: number;
+  stepId: string;
+  reason: RemovalReason;
+  detail?: string;
+  /** Input row kept in place of a duplicate, or that a merged row went into */
+  duplicateOf?: number;
+  /** Cells by the headers of the columns when the row was removed */
+  cells: Record<string, string>;
+}
+
+export interface ChangeReport {
+  generatedAt: string;
+  /** Every column the data had, starting with those of the input data */
+  headers: string[];
+  steps: { id: string; label: string; summary: string }[];
+  rowsBefore: number;
+  rowsAfter: number;
+  cellChanges: CellChange[];
+  removedRows: RemovedRow[];
+}
+
+export type ReportFormat = 'csv' | 'json' | 'html';
+
+export const REPORT_FORMATS: { value: ReportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: '.csv', mimeType: 'text/csv' },
+  { value: 'json', label: 'JSON', extension: '.json', mimeType: 'application/json' },
+  { value: 'html', label: 'HTML', extension: '.html', mimeType: 'text/html' },
+];
+
+/**
+ * An operation applied to the data, e.g. a pipeline step or a manual edit
+ */
+export interface ReportedChange {
+  label: string;
+  result: StepResult;
+}
+
+// Cells of a row by header; cells beyond the headers are named by position
+const rowCells = (row: string[], headers: string[]): Record<string, string> =>
+  Object.fromEntries(
+    Array.from({ length: Math.max(row.length, headers.length) }, (_, index) => [
+      headers[index] ?? `Column ${index + 1}`,
+      row[index] ?? '',
+    ])
+  );
+
+/**
+ * Build the change report from the data the operations started with and
+ * their results, in the order they were applied
+ */
+export function buildChangeReport(data: string[][], headers: string[], changes: ReportedChange[]): ChangeReport {
+  const cellChanges: CellChange[] = [];
+  const removedRows: RemovedRow[] = [];
+  const allHeaders = [...headers];
+  // Input row index of every row in the current data
+  let origins = data.map((_, index) => index);
+  let current = data;
+  let currentHeaders = headers;
+
+  for (const { result } of changes) {
+    const columnsBefore = currentHeaders;
+    result.removals.forEach(removal => {
+      removedRows.push({
+        row: origins[removal.row],
+        stepId: result.stepId,
+        reason: removal.reason,
+        detail: removal.detail,
+        duplicateOf: removal.duplicateOf !== undefined ? origins[removal.duplicateOf] : undefined,
+        cells: rowCells(current[removal.row], columnsBefore),
+      });
+    });
+
+    if (result.context) {
+      currentHeaders = result.context.headers;
+      allHeaders.push(...currentHeaders.filter(header => !allHeaders.includes(header)));
+    }
+    // Rearranging or renaming the columns changes no cells
+    if (!result.context || result.cellsChanged > 0) {
+      result.data.forEach((row, rowIndex) => {
+        const source = result.sourceRows[rowIndex];
+        const before = current[source];
+        // Ragged rows can gain or lose cells; missing cells count as blank
+        for (let column = 0; column < Math.max(row.length, before.length); column++) {
+          if ((row[column] ?? '') !== (before[column] ?? '')) {
+            cellChanges.push({
+              row: origins[source],
+              column: currentHeaders[column] ?? `Column ${column + 1}`,
+              stepId: result.stepId,
+              before: before[column] ?? '',
+              after: row[column] ?? '',
+            });
+          }
+        }
+      });
+    }
+
+    origins = result.sourceRows.map(source => origins[source]);
+    current = result.data;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    headers: allHeaders,
+    steps: changes.map(({ label, result }) => ({ id: result.stepId, label, summary: describeStepResult(result) })),
+    rowsBefore: data.length,
+    rowsAfter: current.length,
+    cellChanges,
+    removedRows,
+  };
+}
+
+/**
+ * Explain why a row was removed, e.g. "Duplicate of row 12" (rows count from 1)
+ */
+export function describeRemoval(removed: Pick<RemovedRow, 'reason' | 'detail' | 'duplicateOf'>): string {
+  switch (removed.reason) {
+    case 'duplicate':
+      return removed.duplicateOf !== undefined ? `Duplicate of row ${removed.duplicateOf + 1}` : 'Duplicate';
+    case 'merged':
+      return removed.duplicateOf !== undefined ? `Merged into row ${removed.duplicateOf + 1}` : 'Merged';
+    case 'empty':
+      return 'Empty row';
+    case 'filtered':
+      return removed.detail ? `Filtered: ${removed.detail}` : 'Filtered';
+    case 'quarantined':
+      return removed.detail ? `Quarantined: ${removed.detail}` : 'Quarantined';
+  }
+}
+
+const stepLabelOf = (report: ChangeReport, stepId: string) =>
+  report.steps.find(({ id }) => id === stepId)?.label ?? stepId;
+
+/**
+ * One line per change: changed cells first, then removed rows with their
+ * cells joined by " | "
+ */
+export function reportToCSV(report: ChangeReport): string {
+  const rows = [
+    ...report.cellChanges.map(change => [
+      'cell changed',
+      String(change.row + 1),
+      change.column,
+      stepLabelOf(report, change.stepId),
+      '',
+      change.before,
+      change.after,
+    ]),
+    ...report.removedRows.map(removed => [
+      'row removed',
+      String(removed.row + 1),
+      '',
+      stepLabelOf(report, removed.stepId),
+      describeRemoval(removed),
+      Object.values(removed.cells).join(' | '),
+      '',
+    ]),
+  ];
+
+  return serializeCSV(rows, ['change', 'row', 'column', 'step', 'reason', 'before', 'after']);
+}
+
+/**
+ * The report as JSON; rows count from 1 and columns are named by header
+ */
+export function reportToJSON(report: ChangeReport): string {
+  return JSON.stringify(
+    {
+      generatedAt: report.generatedAt,
+      rowsBefore: report.rowsBefore,
+      rowsAfter: report.rowsAfter,
+      steps: report.steps.map(({ label, summary }) => ({ step: label, summary })),
+      cellChanges: report.cellChanges.map(change => ({
+        row: change.row + 1,
+        column: change.column,
+        step: stepLabelOf(report, change.stepId),
+        before: change.before,
+        after: change.after,
+      })),
+      removedRows: report.removedRows.map(removed => ({
+        row: removed.row + 1,
+        step: stepLabelOf(report, removed.stepId),
+        reason: describeRemoval(removed),
+        values: removed.cells,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const escapeHTML = (value: string) =>
+  (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * A standalone HTML page for printing or archiving
+ */
+export function reportToHTML(report: ChangeReport): string {
+  const cell = (value: string) => `<td>${escapeHTML(value)}</td>`;
+  const headerRow = (labels: string[]) => `<tr>${labels.map(label => `<th>${escapeHTML(label)}</th>`).join('')}</tr>`;
+
+  const steps = report.steps.map(step => `<li>${escapeHTML(step.label)}: ${escapeHTML(step.summary)}</li>`).join('\n');
+
+  const changes = report.cellChanges
+    .map(change =>
+      '<tr>' +
+      cell(String(change.row + 1)) +
+      cell(change.column) +
+      cell(stepLabelOf(report, change.stepId)) +
+      `<td class="before">${escapeHTML(change.before)}</td>` +
+      `<td class="after">${escapeHTML(change.after)}</td>` +
+      '</tr>'
+    )
+    .join('\n');
+
+  const removed = report.removedRows
+    .map(row =>
+      '<tr>' +
+      cell(String(row.row + 1)) +
+      cell(stepLabelOf(report, row.stepId)) +
+      cell(describeRemoval(row)) +
+      report.headers.map(header => `<td class="before">${escapeHTML(row.cells[header] ?? '')}</td>`).join('') +
+      '</tr>'
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Cleaning change report</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+  table { border-collapse: collapse; margin-bottom: 2rem; font-size: 0.875rem; }
+  th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  .before { background: #fee2e2; }
+  .after { background: #dcfce7; }
+</style>
+</head>
+<body>
+<h1>Cleaning change report</h1>
+<p>Generated ${escapeHTML(report.generatedAt)}. ${report.rowsBefore} rows before cleaning, ${report.rowsAfter} after.</p>
+<ul>
+${steps}
+</ul>
+<h2>Changed cells (${report.cellChanges.length})</h2>
+<table>
+${headerRow(['Row', 'Column', 'Step', 'Before', 'After'])}
+${changes}
+</table>
+<h2>Removed rows (${report.removedRows.length})</h2>
+<table>
+${headerRow(['Row', 'Step', 'Reason', ...report.headers])}
+${removed}
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Serialize the report in the given format
+ */
+export function serializeReport(report: ChangeReport, format: ReportFormat): string {
+  switch (format) {
+    case 'csv':
+      return reportToCSV(report);
+    case 'json':
+      return reportToJSON(report);
+    case 'html':
+      return reportToHTML(report);
+  }
+}
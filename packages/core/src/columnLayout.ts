@@ -0,0 +1,85 @@
+/**
+ * Column layouts: the columns of a table described by where each one comes
+ * from, so renaming, reordering, deleting, duplicating and inserting columns
+ * can be saved and replayed. Sources are positions rather than names, since
+ * a file may repeat a header.
+ */
+
+import { ColumnSchema } from './typeInference';
+
+export interface ColumnSpec {
+  /** Position of the input column holding the values; null for an inserted column */
+  source: number | null;
+  name: string;
+  /** Value of every cell of an inserted column */
+  value?: string;
+  /** Kept in the data but left out of exported files */
+  hidden?: boolean;
+}
+
+/**
+ * The layout that leaves a table unchanged
+ */
+export function layoutFromHeaders(headers: string[], hiddenColumns: string[] = []): ColumnSpec[] {
+  return headers.map((header, index) => ({
+    source: index,
+    name: header,
+    hidden: hiddenColumns.includes(header) || undefined,
+  }));
+}
+
+/**
+ * Rearrange the data into the layout
+ */
+export function applyColumnLayout(
+  data: string[][],
+  schema: ColumnSchema[],
+  layout: ColumnSpec[]
+): { data: string[][], headers: string[], schema: ColumnSchema[], hiddenColumns: string[] } {
+  const sources = layout.map(column => column.source ?? -1);
+
+  return {
+    data: data.map(row =>
+      sources.map((source, index) => (source >= 0 ? row[source] ?? '' : layout[index].value ?? ''))
+    ),
+    headers: layout.map(column => column.name),
+    schema: sources.map(source =>
+      source >= 0 && schema[source]
+        ? schema[source]
+        : { type: 'text', confidence: 0, emptyCount: 0, distinctCount: 1 }
+    ),
+    hiddenColumns: layout.filter(column => column.hidden).map(column => column.name),
+  };
+}
+
+/**
+ * Problems that stop a layout from being applied, e.g. duplicate names
+ */
+export function validateColumnLayout(layout: ColumnSpec[]): string[] {
+  const issues: string[] = [];
+  const names = layout.map(column => column.name.trim());
+
+  if (layout.length === 0) issues.push('Keep at least one column');
+  if (names.some(name => name === '')) issues.push('Every column needs a name');
+  const duplicates = [...new Set(names.filter((name, index) => name !== '' && names.indexOf(name) !== index))];
+  if (duplicates.length > 0) issues.push(`Column names must be unique: ${duplicates.join(', ')}`);
+
+  return issues;
+}
+
+/**
+ * Drop the hidden columns, for exporting
+ */
+export function removeHiddenColumns(
+  data: string[][],
+  headers: string[],
+  hiddenColumns: string[]
+): { data: string[][], headers: string[] } {
+  if (hiddenColumns.length === 0) return { data, headers };
+
+  const kept = headers.map((_, index) => index).filter(index => !hiddenColumns.includes(headers[index]));
+  return {
+    data: data.map(row => kept.map(index => row[index] ?? '')),
+    headers: kept.map(index => headers[index]),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Column selectors scope a cleaning operation to a subset of the columns.
+ */
+
+import { ColumnType } from './typeInference';
+
+export type ColumnSelector =
+  | { mode: 'all' }
+  /** Columns listed by header name */
+  | { mode: 'columns'; columns: string[] }
+  /** Columns whose (inferred or overridden) type is one of these */
+  | { mode: 'types'; types: ColumnType[] }
+  /** Columns whose header matches a regular expression (case-insensitive) */
+  | { mode: 'pattern'; pattern: string };
+
+export const ALL_COLUMNS: ColumnSelector = { mode: 'all' };
+
+/**
+ * Compile a header pattern, returning null when it is not a valid regex
+ */
+export function compileHeaderPattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a selector to the indices of the columns it selects
+ */
+export function resolveColumns(
+  selector: ColumnSelector,
+  headers: string[],
+  columnTypes: ColumnType[] = []
+): number[] {
+  const indices = headers.map((_, index) => index);
+
+  switch (selector.mode) {
+    case 'all':
+      return indices;
+    case 'columns':
+      return indices.filter(index => selector.columns.includes(headers[index]));
+    case 'types':
+      return indices.filter(index => columnTypes[index] !== undefined && selector.types.includes(columnTypes[index]));
+    case 'pattern': {
+      const regex = compileHeaderPattern(selector.pattern);
+      return regex ? indices.filter(index => regex.test(headers[index])) : [];
+    }
+  }
+}
@@ -0,0 +1,613 @@
+
+/**
+ * CSV Utility functions for parsing, cleaning, and writing CSV data.
+ */
+
+import { RaggedRowSummary, summarizeRaggedRows } from './raggedRows';
+import { parseDateValue } from './typeInference';
+
+/**
+ * Error thrown when CSV input is malformed, e.g. an unterminated quoted field.
+ * Line and column are 1-based and point at the offending character.
+ */
+export class CSVParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'CSVParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface CSVTokenizeOptions {
+  delimiter?: string;
+  quoteChar?: string;
+  /** Stop after this many records have been read */
+  maxRecords?: number;
+}
+
+type TokenizerState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * Incremental RFC 4180 tokenizer: fields may be quoted, quotes inside a quoted
+ * field are escaped by doubling them, and quoted fields may contain delimiters
+ * and line breaks. CRLF, LF and bare CR all end a record. Text can be pushed in
+ * arbitrary chunks, so records and CRLF pairs may span chunk boundaries.
+ * Blank lines come out as records without fields, while a line holding only
+ * `""` is a record with one empty field.
+ */
+export class CSVTokenizer {
+  private readonly delimiter: string;
+  private readonly quoteChar: string;
+
+  private records: string[][] = [];
+  private record: string[] = [];
+  private field = '';
+  private state: TokenizerState = 'fieldStart';
+  private afterCR = false;
+  /** Whether the current record has a quoted field */
+  private hasQuotes = false;
+
+  // Position tracking for error messages
+  private line = 1;
+  private column = 0;
+  private quoteLine = 0;
+  private quoteColumn = 0;
+
+  constructor(options: CSVTokenizeOptions = {}) {
+    this.delimiter = options.delimiter ?? ',';
+    this.quoteChar = options.quoteChar ?? '"';
+  }
+
+  /**
+   * Feed the next chunk of text and return the records it completed
+   */
+  push(chunk: string): string[][] {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === '\n') {
+          // Second half of a CRLF line break
+          if (this.state === 'quoted') this.field += char;
+          continue;
+        }
+      }
+
+      this.column++;
+      const isNewline = char === '\n' || char === '\r';
+
+      switch (this.state) {
+        case 'fieldStart':
+        case 'unquoted':
+          if (char === this.quoteChar && this.state === 'fieldStart') {
+            this.state = 'quoted';
+            this.hasQuotes = true;
+            this.quoteLine = this.line;
+            this.quoteColumn = this.column;
+          } else if (char === this.delimiter) {
+            this.endField();
+            this.state = 'fieldStart';
+          } else if (isNewline) {
+            this.endRecord();
+            this.state = 'fieldStart';
+          } else {
+            // Stray quotes inside an unquoted field are kept literally
+            this.field += char;
+            this.state = 'unquoted';
+          }
+          break;
+
+        case 'quoted':
+          if (char === this.quoteChar) {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === this.quoteChar) {
+            // Escaped quote ("")
+            this.field += char;
+            this.state = 'quoted';
+          } else if (char === this.delimiter) {
+            this.endField();
+            this.state = 'fieldStart';
+          } else if (isNewline) {
+            this.endRecord();
+            this.state = 'fieldStart';
+          } else {
+            throw new CSVParseError(
+              `Unexpected character '${char}' after closing quote`,
+              this.line,
+              this.column
+            );
+          }
+          break;
+      }
+
+      if (isNewline) {
+        this.line++;
+        this.column = 0;
+        this.afterCR = char === '\r';
+      }
+    }
+
+    return this.takeRecords();
+  }
+
+  /**
+   * Signal the end of input and return the final record, if any
+   */
+  end(): string[][] {
+    if (this.state === 'quoted') {
+      throw new CSVParseError('Unterminated quoted field', this.quoteLine, this.quoteColumn);
+    }
+
+    // Flush the last record unless the input ended with a line break
+    if (this.state !== 'fieldStart' || this.record.length > 0) {
+      this.endRecord();
+    }
+    this.state = 'fieldStart';
+
+    return this.takeRecords();
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+  }
+
+  private endRecord() {
+    const isBlank = !this.hasQuotes && this.record.length === 0 && this.field.trim() === '';
+    this.endField();
+    this.records.push(isBlank ? [] : this.record);
+    this.record = [];
+    this.hasQuotes = false;
+  }
+
+  private takeRecords(): string[][] {
+    const completed = this.records;
+    this.records = [];
+    return completed;
+  }
+}
+
+const TOKENIZE_CHUNK_SIZE = 65536;
+
+/**
+ * Split CSV text into records. See CSVTokenizer for the quoting rules.
+ */
+export function tokenizeCSV(content: string, options: CSVTokenizeOptions = {}): string[][] {
+  const tokenizer = new CSVTokenizer(options);
+  const records: string[][] = [];
+  const limit = options.maxRecords ?? Infinity;
+
+  for (let offset = 0; offset < content.length && records.length < limit; offset += TOKENIZE_CHUNK_SIZE) {
+    for (const record of tokenizer.push(content.slice(offset, offset + TOKENIZE_CHUNK_SIZE))) {
+      records.push(record);
+    }
+  }
+
+  if (records.length < limit) {
+    records.push(...tokenizer.end());
+  }
+
+  return records.slice(0, limit);
+}
+
+/**
+ * Tokenize the beginning of a file for sniffing or previewing. A record cut
+ * off by the end of the sample is returned as-is instead of raising an error.
+ */
+export function tokenizeSample(sample: string, options: CSVTokenizeOptions = {}): string[][] {
+  const tokenizer = new CSVTokenizer(options);
+  const records = tokenizer.push(sample);
+
+  try {
+    records.push(...tokenizer.end());
+  } catch (error) {
+    if (!(error instanceof CSVParseError)) throw error;
+  }
+
+  return records.slice(0, options.maxRecords ?? Infinity);
+}
+
+/**
+ * Whether a tokenized record comes from a blank or whitespace-only line
+ */
+export function isBlankRecord(record: string[]): boolean {
+  return record.length === 0;
+}
+
+/**
+ * The formatting conventions of a CSV file, detected on upload and reused on export
+ */
+export interface CSVDialect {
+  delimiter: string;
+  quoteChar: string;
+  lineEnding: '\n' | '\r\n' | '\r';
+  hasBOM: boolean;
+}
+
+export const DEFAULT_DIALECT: CSVDialect = {
+  delimiter: ',',
+  quoteChar: '"',
+  lineEnding: '\n',
+  hasBOM: false,
+};
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+  { value: '^', label: 'Caret (^)' },
+];
+
+export const LINE_ENDING_OPTIONS: { value: CSVDialect['lineEnding']; label: string }[] = [
+  { value: '\n', label: 'LF (Unix, macOS)' },
+  { value: '\r\n', label: 'CRLF (Windows)' },
+  { value: '\r', label: 'CR (Classic Mac)' },
+];
+
+export const QUOTE_OPTIONS: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+/**
+ * Human-readable summary of a dialect, e.g. "Semicolon (;) • CRLF • BOM"
+ */
+export function describeDialect(dialect: CSVDialect): string {
+  const delimiter = DELIMITER_OPTIONS.find(option => option.value === dialect.delimiter)?.label
+    ?? JSON.stringify(dialect.delimiter);
+  const lineEnding = { '\n': 'LF', '\r\n': 'CRLF', '\r': 'CR' }[dialect.lineEnding];
+  return [delimiter, lineEnding, dialect.hasBOM ? 'BOM' : null].filter(Boolean).join(' • ');
+}
+
+const SNIFF_SAMPLE_RECORDS = 50;
+const SNIFF_SAMPLE_SIZE = 65536;
+
+/**
+ * Score how consistently a delimiter splits the sample into the same number of
+ * columns. Returns 0 when the delimiter never splits a line or breaks quoting.
+ */
+function scoreDelimiter(sample: string, delimiter: string, quoteChar: string): { score: number, columns: number } {
+  let records: string[][];
+  try {
+    records = tokenizeSample(sample, { delimiter, quoteChar, maxRecords: SNIFF_SAMPLE_RECORDS })
+      .filter(record => !isBlankRecord(record));
+  } catch {
+    return { score: 0, columns: 0 };
+  }
+
+  if (records.length === 0) {
+    return { score: 0, columns: 0 };
+  }
+
+  // Find the most common column count
+  const frequencies = new Map<number, number>();
+  for (const record of records) {
+    frequencies.set(record.length, (frequencies.get(record.length) || 0) + 1);
+  }
+  let columns = 0;
+  let matching = 0;
+  frequencies.forEach((count, length) => {
+    if (count > matching || (count === matching && length > columns)) {
+      columns = length;
+      matching = count;
+    }
+  });
+
+  if (columns < 2) {
+    return { score: 0, columns };
+  }
+
+  return { score: matching / records.length, columns };
+}
+
+/**
+ * Detect the delimiter, quote character, line ending and BOM of CSV content.
+ * Candidate delimiters are scored on a sample of records by how consistently
+ * they produce the same column count, honouring quoted fields. The content may
+ * be just the beginning of a larger file.
+ */
+export function sniffDialect(content: string): CSVDialect {
+  const hasBOM = content.charCodeAt(0) === 0xfeff;
+  const text = content.slice(hasBOM ? 1 : 0, SNIFF_SAMPLE_SIZE);
+
+  const lineBreak = text.match(/\r\n|\n|\r/);
+  const lineEnding = (lineBreak ? lineBreak[0] : '\n') as CSVDialect['lineEnding'];
+
+  // Prefer double quotes unless single quotes are clearly used to wrap fields
+  const countQuoted = (quote: string) =>
+    (text.match(new RegExp(`(^|[,;\\t|^])${quote}`, 'gm')) || []).length;
+  const quoteChar = countQuoted("'") > countQuoted('"') ? "'" : '"';
+
+  let best = { delimiter: DEFAULT_DIALECT.delimiter, score: 0, columns: 0 };
+  for (const { value: delimiter } of DELIMITER_OPTIONS) {
+    const { score, columns } = scoreDelimiter(text, delimiter, quoteChar);
+    if (score > best.score || (score === best.score && score > 0 && columns > best.columns)) {
+      best = { delimiter, score, columns };
+    }
+  }
+
+  return { delimiter: best.delimiter, quoteChar, lineEnding, hasBOM };
+}
+
+/**
+ * Parse a CSV string into a 2D array of strings and extract headers.
+ * The dialect is sniffed from the content unless given explicitly; rows
+ * whose cell count differs from the headers are kept as they are and counted.
+ */
+export function parseCSV(
+  csvContent: string,
+  dialect?: Partial<CSVDialect>
+): { data: string[][], headers: string[], dialect: CSVDialect, ragged: RaggedRowSummary } {
+  const resolvedDialect: CSVDialect = { ...sniffDialect(csvContent), ...dialect };
+  const content = csvContent.charCodeAt(0) === 0xfeff ? csvContent.slice(1) : csvContent;
+  
+  // Tokenize and drop blank lines
+  const records = tokenizeCSV(content, resolvedDialect).filter(record => !isBlankRecord(record));
+  
+  if (records.length === 0) {
+    return { data: [], headers: [], dialect: resolvedDialect, ragged: summarizeRaggedRows([], 0) };
+  }
+  
+  // Extract headers from the first record
+  const headers = records[0].map(header => header.trim());
+  
+  // Cell values are kept verbatim; whitespace is handled by the cleaning step
+  const data = records.slice(1);
+  
+  return { data, headers, dialect: resolvedDialect, ragged: summarizeRaggedRows(data, headers.length) };
+}
+
+export type SurvivorshipRule = 'first' | 'last' | 'mostComplete' | 'latest';
+
+/**
+ * How rows are compared and which one of a group of duplicates is kept
+ */
+export interface DeduplicateOptions {
+  /** Columns compared to detect duplicates; all columns by default */
+  keyColumns?: number[];
+  /** Compare letter case exactly (default false) */
+  caseSensitive?: boolean;
+  /** Compare accented letters exactly, so "José" differs from "Jose" (default true) */
+  accentSensitive?: boolean;
+  /** "trim" ignores surrounding whitespace, "collapse" also repeated inner spaces */
+  whitespace?: 'exact' | 'trim' | 'collapse';
+  survivorship?: SurvivorshipRule;
+  /** Column holding the date compared by the "latest" rule */
+  dateColumn?: number;
+  /** Format of the date column (see ColumnSchema.format); ISO dates are parsed without it */
+  dateFormat?: string;
+}
+
+/**
+ * Normalize a cell for duplicate comparison according to the options
+ */
+function normalizeForComparison(cell: string, options: DeduplicateOptions): string {
+  let value = cell || '';
+  
+  if (options.whitespace === 'collapse') {
+    value = value.trim().replace(/\s+/g, ' ');
+  } else if (options.whitespace !== 'exact') {
+    value = value.trim();
+  }
+  if (!options.caseSensitive) {
+    value = value.toLowerCase();
+  }
+  if (options.accentSensitive === false) {
+    value = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  }
+  
+  return value;
+}
+
+/**
+ * Pick the index of the row to keep from a group of duplicates (in input order)
+ */
+function pickSurvivor(group: number[], data: string[][], options: DeduplicateOptions): number {
+  const best = (score: (index: number) => number) =>
+    group.reduce((winner, index) => (score(index) > score(winner) ? index : winner));
+
+  switch (options.survivorship) {
+    case 'last':
+      return group[group.length - 1];
+    case 'mostComplete':
+      return best(index => data[index].filter(cell => (cell || '').trim() !== '').length);
+    case 'latest': {
+      if (options.dateColumn === undefined) return group[0];
+      const timestamp = (index: number) => {
+        const value = (data[index][options.dateColumn!] || '').trim();
+        const date = options.dateFormat ? parseDateValue(value, options.dateFormat) : new Date(value);
+        return date && !isNaN(date.getTime()) ? date.getTime() : -Infinity;
+      };
+      return best(timestamp);
+    }
+    default:
+      return group[0];
+  }
+}
+
+/**
+ * Remove duplicate rows from the data. By default whole rows are compared
+ * ignoring case and surrounding whitespace, and the first occurrence is kept.
+ * Survivors stay at the position where their group first appeared; `kept`
+ * and `removed` give the input index of every kept and dropped row.
+ */
+export function removeDuplicates(
+  data: string[][],
+  options: DeduplicateOptions = {}
+): { data: string[][], count: number, kept: number[], removed: { index: number, duplicateOf: number }[] } {
+  // Group rows by a signature built from the normalized key columns
+  const groups = new Map<string, number[]>();
+  
+  for (let i = 0; i < data.length; i++) {
+    const row = data[i];
+    const cells = options.keyColumns ? options.keyColumns.map(column => row[column]) : row;
+    const signature = JSON.stringify(cells.map(cell => normalizeForComparison(cell, options)));
+    
+    const group = groups.get(signature);
+    if (group) {
+      group.push(i);
+    } else {
+      groups.set(signature, [i]);
+    }
+  }
+  
+  const uniqueData: string[][] = [];
+  const kept: number[] = [];
+  const removed: { index: number, duplicateOf: number }[] = [];
+  groups.forEach(group => {
+    const survivor = pickSurvivor(group, data, options);
+    uniqueData.push(data[survivor]);
+    kept.push(survivor);
+    group.forEach(index => {
+      if (index !== survivor) removed.push({ index, duplicateOf: survivor });
+    });
+  });
+  removed.sort((a, b) => a.index - b.index);
+  
+  return {
+    data: uniqueData,
+    count: data.length - uniqueData.length,
+    kept,
+    removed
+  };
+}
+
+/**
+ * Trim whitespace from cells in the given columns (all columns by default)
+ */
+export function trimWhitespace(data: string[][], columns?: number[]): { data: string[][], count: number } {
+  let cellsFixed = 0;
+  
+  const trimmedData = data.map(row => {
+    return row.map((cell, index) => {
+      if (!cell) return cell; // Skip null or undefined
+      if (columns && !columns.includes(index)) return cell;
+      const trimmed = cell.trim();
+      if (trimmed !== cell) {
+        cellsFixed++;
+      }
+      return trimmed;
+    });
+  });
+  
+  return {
+    data: trimmedData,
+    count: cellsFixed
+  };
+}
+
+/**
+ * Standardize text case in the data (convert to lowercase for consistency).
+ * With explicit columns, every cell in them is changed; without them, any
+ * non-numeric cell is.
+ */
+export function standardizeCase(data: string[][], headers: string[], columns?: number[]): string[][] {
+  return data.map(row => {
+    return row.map((cell, index) => {
+      if (columns) {
+        return columns.includes(index) && cell ? cell.toLowerCase() : cell;
+      }
+      // Only standardize text fields (not numbers, dates, etc.)
+      if (isNaN(Number(cell)) && cell !== '') {
+        return cell.toLowerCase();
+      }
+      return cell;
+    });
+  });
+}
+
+/**
+ * How a row is judged empty: every cell blank, every key column blank, or more
+ * than the given percentage of cells blank
+ */
+export type EmptyRowOptions =
+  | { mode: 'all' }
+  | { mode: 'keyColumns'; columns: number[] }
+  | { mode: 'threshold'; percent: number };
+
+const isBlank = (cell: string | undefined) => (cell ?? '').trim() === '';
+
+/**
+ * Find the indices of the rows considered empty
+ */
+export function findEmptyRows(data: string[][], options: EmptyRowOptions = { mode: 'all' }): number[] {
+  const indices: number[] = [];
+
+  data.forEach((row, index) => {
+    let empty: boolean;
+    switch (options.mode) {
+      case 'all':
+        empty = row.every(isBlank);
+        break;
+      case 'keyColumns':
+        empty = options.columns.length > 0 && options.columns.every(column => isBlank(row[column]));
+        break;
+      case 'threshold':
+        empty = row.length === 0 || (row.filter(isBlank).length / row.length) * 100 > options.percent;
+        break;
+    }
+    if (empty) indices.push(index);
+  });
+
+  return indices;
+}
+
+/**
+ * Remove empty rows from the data (all cells blank unless configured otherwise)
+ */
+export function removeEmptyRows(
+  data: string[][],
+  options: EmptyRowOptions = { mode: 'all' }
+): { data: string[][], count: number } {
+  const emptyRows = new Set(findEmptyRows(data, options));
+  const filteredData = data.filter((_, index) => !emptyRows.has(index));
+  
+  return {
+    data: filteredData,
+    count: emptyRows.size
+  };
+}
+
+/**
+ * Quote a single field if it contains the delimiter, the quote character or a
+ * line break, doubling any embedded quote characters (RFC 4180). A blank field
+ * alone on its line is quoted too, or it would read back as a blank line.
+ */
+function quoteField(value: string, dialect: CSVDialect, isAlone = false): string {
+  const cell = value ?? '';
+  const needsQuoting =
+    (isAlone && cell.trim() === '') ||
+    cell.includes(dialect.delimiter) ||
+    cell.includes(dialect.quoteChar) ||
+    cell.includes('\n') ||
+    cell.includes('\r');
+
+  if (!needsQuoting) return cell;
+
+  const escaped = cell.split(dialect.quoteChar).join(dialect.quoteChar + dialect.quoteChar);
+  return dialect.quoteChar + escaped + dialect.quoteChar;
+}
+
+/**
+ * Serialize headers and rows into CSV text using the given dialect, so that
+ * parsing the output with the same dialect yields the original cells
+ */
+export function serializeCSV(data: string[][], headers: string[], dialect: CSVDialect = DEFAULT_DIALECT): string {
+  const lines = [headers, ...data].map(row =>
+    row.map(cell => quoteField(cell, dialect, row.length === 1)).join(dialect.delimiter)
+  );
+  
+  return (dialect.hasBOM ? '\uFEFF' : '') + lines.join(dialect.lineEnding);
+}
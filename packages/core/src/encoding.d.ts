@@ -0,0 +1,15 @@
+/**
+ * The WHATWG encoding API, available in browsers, workers and Node. Declared
+ * here so the package compiles without the DOM library, which keeps
+ * browser-only globals such as `document` out of the core.
+ */
+
+declare class TextDecoder {
+  constructor(label?: string, options?: { fatal?: boolean; ignoreBOM?: boolean });
+  readonly encoding: string;
+  decode(input?: ArrayBuffer | ArrayBufferView, options?: { stream?: boolean }): string;
+}
+
+declare class TextEncoder {
+  encode(input?: string): Uint8Array;
+}
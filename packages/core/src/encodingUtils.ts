@@ -0,0 +1,255 @@
+/**
+ * Character encoding detection and conversion for uploaded and exported files.
+ */
+
+export const ENCODING_OPTIONS: { value: string; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { value: 'iso-8859-2', label: 'ISO-8859-2 (Central European)' },
+  { value: 'iso-8859-15', label: 'ISO-8859-15 (Western, Euro)' },
+  { value: 'shift_jis', label: 'Shift_JIS (Japanese)' },
+];
+
+export interface EncodingCandidate {
+  encoding: string;
+  /** Between 0 and 1 */
+  confidence: number;
+}
+
+export interface EncodingDetection {
+  encoding: string;
+  hasBOM: boolean;
+  /** Every supported encoding, most likely first */
+  candidates: EncodingCandidate[];
+}
+
+const BOMS: { encoding: string; bytes: number[] }[] = [
+  { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] },
+];
+
+/**
+ * Find the encoding announced by a byte order mark, if any
+ */
+function detectBOM(bytes: Uint8Array): string | null {
+  const bom = BOMS.find(({ bytes: bomBytes }) => bomBytes.every((byte, index) => bytes[index] === byte));
+  return bom ? bom.encoding : null;
+}
+
+/**
+ * Decode a sample of bytes. Trailing bytes of a character cut off by the end
+ * of the sample are held back rather than decoded as garbage.
+ */
+export function decodeSample(bytes: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes, { stream: true });
+}
+
+function isValidUTF8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Share of decoded characters that look like real text: replacement
+ * characters, control codes and (outside Shift_JIS) stray katakana count
+ * against the encoding, as do symbols in the middle of words
+ */
+function plausibility(text: string, encoding: string): number {
+  if (text.length === 0) return 0;
+
+  let suspicious = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code === 0xfffd || code === 0) {
+      suspicious += 2;
+    } else if ((code < 0x20 && char !== '\t' && char !== '\n' && char !== '\r') || (code >= 0x7f && code < 0xa0)) {
+      suspicious++;
+    } else if (code >= 0xff61 && code <= 0xff9f) {
+      // Half-width katakana is what Latin-1 bytes usually turn into under Shift_JIS
+      suspicious++;
+    } else if (encoding !== 'shift_jis' && code >= 0x3000 && code <= 0x9fff) {
+      suspicious++;
+    }
+  }
+
+  return Math.max(0, 1 - suspicious / text.length) * (1 - symbolsInWords(text) / 2);
+}
+
+const isLetter = (char: string | undefined) => char !== undefined && /\p{L}/u.test(char);
+
+// Symbols that normally touch a word: quotes, ordinals, degrees and powers
+const WORD_EDGE_SYMBOLS = new Set('«»‹›‘’‚“”„¿¡ªº°²³µ´·');
+// Symbols that may sit inside a word, as apostrophes do
+const IN_WORD_SYMBOLS = new Set('’‘´·');
+
+/**
+ * Share of the non-ASCII characters that are symbols stuck to letters. The
+ * legacy encodings differ mostly in their upper half, where one's letter is
+ * another's symbol: Polish "Łódź" in ISO-8859-2 reads as "£ód¼" in
+ * Windows-1252.
+ */
+function symbolsInWords(text: string): number {
+  const chars = [...text];
+  let nonASCII = 0;
+  let stuck = 0;
+
+  chars.forEach((char, index) => {
+    if (char.charCodeAt(0) < 0x80) return;
+    nonASCII++;
+    if (isLetter(char) || /\s/.test(char)) return;
+
+    const before = isLetter(chars[index - 1]);
+    const after = isLetter(chars[index + 1]);
+    if (before && after) {
+      stuck += IN_WORD_SYMBOLS.has(char) ? 0 : 1;
+    } else if (before || after) {
+      stuck += WORD_EDGE_SYMBOLS.has(char) ? 0 : 0.5;
+    }
+  });
+
+  return nonASCII === 0 ? 0 : stuck / nonASCII;
+}
+
+/**
+ * Estimate how likely the bytes are UTF-16 of the given byte order, based on
+ * the zero high bytes that Latin text produces
+ */
+function utf16Likelihood(bytes: Uint8Array, littleEndian: boolean): number {
+  const pairs = Math.floor(bytes.length / 2);
+  if (pairs === 0) return 0;
+
+  let zeroHigh = 0;
+  let zeroLow = 0;
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    const high = littleEndian ? bytes[i + 1] : bytes[i];
+    const low = littleEndian ? bytes[i] : bytes[i + 1];
+    if (high === 0) zeroHigh++;
+    if (low === 0) zeroLow++;
+  }
+
+  return Math.max(0, (zeroHigh - zeroLow) / pairs);
+}
+
+/**
+ * Guess the character encoding of the beginning of a file. A byte order mark
+ * is decisive; otherwise UTF-16 is recognised by its zero bytes, valid
+ * non-ASCII UTF-8 is preferred, and the legacy encodings are ranked by how
+ * plausible the decoded text looks.
+ */
+export function detectEncoding(bytes: Uint8Array): EncodingDetection {
+  const bomEncoding = detectBOM(bytes);
+  const isASCII = bytes.every(byte => byte < 0x80);
+  const validUTF8 = isValidUTF8(bytes);
+
+  const candidates = ENCODING_OPTIONS.map(({ value: encoding }) => {
+    let confidence: number;
+
+    if (bomEncoding) {
+      confidence = encoding === bomEncoding ? 1 : 0;
+    } else if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+      confidence = utf16Likelihood(bytes, encoding === 'utf-16le');
+    } else if (encoding === 'utf-8') {
+      confidence = validUTF8 ? (isASCII ? 0.9 : 0.99) : 0;
+    } else {
+      // Legacy encodings are indistinguishable from UTF-8 on pure ASCII
+      const score = plausibility(decodeSample(bytes, encoding), encoding);
+      confidence = isASCII ? score * 0.5 : validUTF8 ? score * 0.6 : score * 0.95;
+    }
+
+    return { encoding, confidence: Math.round(confidence * 100) / 100 };
+  });
+
+  // Stable sort keeps the option order as the tie-breaker
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  return {
+    encoding: candidates[0].encoding,
+    hasBOM: bomEncoding !== null,
+    candidates,
+  };
+}
+
+/**
+ * Whether an encoding can represent every Unicode character
+ */
+export function isUnicodeEncoding(encoding: string): boolean {
+  return encoding === 'utf-8' || encoding === 'utf-16le' || encoding === 'utf-16be';
+}
+
+// Reverse lookup tables for legacy encodings, built on first use
+const encodeTables = new Map<string, Map<string, number[]>>();
+
+/**
+ * Build a character-to-bytes table for a legacy encoding by decoding every
+ * single-byte value and, for Shift_JIS, every double-byte sequence
+ */
+function getEncodeTable(encoding: string): Map<string, number[]> {
+  const cached = encodeTables.get(encoding);
+  if (cached) return cached;
+
+  const table = new Map<string, number[]>();
+  const decoder = new TextDecoder(encoding);
+  const add = (sequence: number[]) => {
+    const char = decoder.decode(new Uint8Array(sequence));
+    if (char.length === 1 && char !== '\uFFFD' && !table.has(char)) {
+      table.set(char, sequence);
+    }
+  };
+
+  if (encoding === 'shift_jis') {
+    for (let byte = 0; byte <= 0xdf; byte++) {
+      if (byte < 0x80 || byte >= 0xa1) add([byte]);
+    }
+    for (let lead = 0x81; lead <= 0xfc; lead++) {
+      if (lead > 0x9f && lead < 0xe0) continue;
+      for (let trail = 0x40; trail <= 0xfc; trail++) {
+        if (trail !== 0x7f) add([lead, trail]);
+      }
+    }
+  } else {
+    for (let byte = 0; byte <= 0xff; byte++) add([byte]);
+  }
+
+  encodeTables.set(encoding, table);
+  return table;
+}
+
+/**
+ * Encode text into bytes. Characters a legacy encoding cannot represent are
+ * replaced with "?", and a leading byte order mark is dropped for them.
+ */
+export function encodeText(text: string, encoding: string): Uint8Array {
+  if (encoding === 'utf-8') {
+    return new TextEncoder().encode(text);
+  }
+
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+    const bytes = new Uint8Array(text.length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < text.length; i++) {
+      view.setUint16(i * 2, text.charCodeAt(i), encoding === 'utf-16le');
+    }
+    return bytes;
+  }
+
+  const table = getEncodeTable(encoding);
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const bytes: number[] = [];
+  for (const char of source) {
+    const sequence = table.get(char);
+    if (sequence) {
+      bytes.push(...sequence);
+    } else {
+      bytes.push(0x3f);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,537 @@
+/**
+ * Fuzzy duplicate detection: string similarity measures, phonetic and
+ * fingerprint keys, and clustering of similar values within a column.
+ */
+
+export type FuzzyAlgorithm =
+  | 'levenshtein'
+  | 'jaroWinkler'
+  | 'tokenSet'
+  | 'soundex'
+  | 'metaphone'
+  | 'ngramFingerprint';
+
+/**
+ * Key algorithms cluster values whose keys are equal; similarity algorithms
+ * compare pairs of values against a threshold
+ */
+export const FUZZY_ALGORITHMS: { value: FuzzyAlgorithm; label: string; kind: 'similarity' | 'key' }[] = [
+  { value: 'levenshtein', label: 'Levenshtein distance', kind: 'similarity' },
+  { value: 'jaroWinkler', label: 'Jaro-Winkler', kind: 'similarity' },
+  { value: 'tokenSet', label: 'Token set ratio', kind: 'similarity' },
+  { value: 'soundex', label: 'Soundex', kind: 'key' },
+  { value: 'metaphone', label: 'Metaphone', kind: 'key' },
+  { value: 'ngramFingerprint', label: 'N-gram fingerprint', kind: 'key' },
+];
+
+/**
+ * How values are split into blocks before pairwise comparison; only values
+ * in the same block are compared
+ */
+export type BlockingMethod = 'none' | 'prefix' | 'soundex' | 'firstToken';
+
+export const BLOCKING_METHODS: { value: BlockingMethod; label: string }[] = [
+  { value: 'prefix', label: 'Same first characters' },
+  { value: 'soundex', label: 'Same Soundex of first word' },
+  { value: 'firstToken', label: 'Same first word' },
+  { value: 'none', label: 'No blocking (slow on large files)' },
+];
+
+export interface FuzzyMatchOptions {
+  algorithm: FuzzyAlgorithm;
+  /** Minimum similarity, 0 to 1, for similarity algorithms */
+  threshold: number;
+  blocking: BlockingMethod;
+  /** Number of leading characters compared by prefix blocking */
+  prefixLength?: number;
+}
+
+export interface ClusterValue {
+  value: string;
+  /** Indices of the rows holding this value */
+  rows: number[];
+}
+
+export interface FuzzyCluster {
+  id: string;
+  /** Distinct values in the cluster, most frequent first */
+  values: ClusterValue[];
+}
+
+export type ClusterAction = 'merge' | 'canonical' | 'reject';
+
+/**
+ * What to do with a cluster: "merge" collapses its rows into one record,
+ * "canonical" rewrites every value to the canonical one and keeps the rows,
+ * "reject" leaves the cluster untouched
+ */
+export interface ClusterDecision {
+  action: ClusterAction;
+  canonical: string;
+}
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeValue(value: string): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const tokenize = (value: string) => normalizeValue(value).split(' ').filter(token => token !== '');
+
+/**
+ * Number of single-character edits turning one string into the other
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit distance scaled to a similarity between 0 and 1
+ */
+export function levenshteinSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshteinDistance(a, b) / length;
+}
+
+/**
+ * Jaro-Winkler similarity, which favours strings sharing a common prefix
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && prefix < Math.min(a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two strings as 2 × matched characters / total characters,
+ * using the edit distance as an approximation of the unmatched characters
+ */
+function ratio(a: string, b: string): number {
+  const total = a.length + b.length;
+  return total === 0 ? 1 : (total - levenshteinDistance(a, b)) / total;
+}
+
+/**
+ * Token set ratio: compares the shared words with each side's full set of
+ * words, so word order and extra words matter less ("Acme Widgets" vs
+ * "Widgets, Acme Ltd")
+ */
+export function tokenSetRatio(a: string, b: string): number {
+  const tokensA = new Set(tokenize(a));
+  const tokensB = new Set(tokenize(b));
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).sort();
+  const onlyA = [...tokensA].filter(token => !tokensB.has(token)).sort();
+  const onlyB = [...tokensB].filter(token => !tokensA.has(token)).sort();
+
+  const base = shared.join(' ');
+  const withA = [base, ...onlyA].filter(part => part !== '').join(' ');
+  const withB = [base, ...onlyB].filter(part => part !== '').join(' ');
+
+  if (base === '') return ratio(withA, withB);
+  return Math.max(ratio(base, withA), ratio(base, withB), ratio(withA, withB));
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+/**
+ * American Soundex code of a single word, e.g. "Robert" → "R163"
+ */
+function soundexWord(word: string): string {
+  const letters = word.replace(/[^a-z]/g, '');
+  if (letters === '') return '';
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const letter = letters[i];
+    const digit = SOUNDEX_CODES[letter] ?? '';
+    if (digit && digit !== previous) code += digit;
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') previous = digit;
+  }
+
+  return code.padEnd(4, '0');
+}
+
+/**
+ * Soundex code of every word, e.g. "John Smith" → "J500 S530"
+ */
+export function soundex(value: string): string {
+  return tokenize(value).map(soundexWord).filter(code => code !== '').join(' ');
+}
+
+const isVowel = (letter: string | undefined) => letter !== undefined && 'aeiou'.includes(letter);
+
+/**
+ * Metaphone key of a single word (Lawrence Philips' original rules)
+ */
+function metaphoneWord(word: string): string {
+  let letters = word.replace(/[^a-z]/g, '');
+  if (letters === '') return '';
+
+  // Initial letter exceptions
+  if (/^(kn|gn|pn|ae|wr)/.test(letters)) letters = letters.slice(1);
+  if (letters[0] === 'x') letters = 's' + letters.slice(1);
+  if (letters.startsWith('wh')) letters = 'w' + letters.slice(2);
+
+  let key = '';
+  for (let i = 0; i < letters.length; i++) {
+    const letter = letters[i];
+    const previous = letters[i - 1];
+    const next = letters[i + 1];
+    const afterNext = letters[i + 2];
+
+    // Repeated letters are coded once, except C
+    if (letter === previous && letter !== 'c') continue;
+
+    switch (letter) {
+      case 'a': case 'e': case 'i': case 'o': case 'u':
+        if (i === 0) key += letter.toUpperCase();
+        break;
+      case 'b':
+        if (!(previous === 'm' && i === letters.length - 1)) key += 'B';
+        break;
+      case 'c':
+        if (next === 'i' && afterNext === 'a') key += 'X';
+        else if (next === 'h') key += previous === 's' ? 'K' : 'X';
+        else if (next === 'i' || next === 'e' || next === 'y') {
+          if (previous !== 's') key += 'S';
+        } else key += 'K';
+        break;
+      case 'd':
+        key += next === 'g' && 'eiy'.includes(afterNext ?? '-') ? 'J' : 'T';
+        break;
+      case 'g':
+        if (next === 'h' && !isVowel(afterNext) && afterNext !== undefined) break;
+        if (next === 'n' && (afterNext === undefined || (afterNext === 'e' && letters[i + 3] === 'd'))) break;
+        if (previous === 'd' && 'eiy'.includes(next ?? '-')) break;
+        key += 'eiy'.includes(next ?? '-') ? 'J' : 'K';
+        break;
+      case 'h':
+        if (isVowel(next) && !'csptg'.includes(previous ?? '-')) key += 'H';
+        break;
+      case 'k':
+        if (previous !== 'c') key += 'K';
+        break;
+      case 'p':
+        key += next === 'h' ? 'F' : 'P';
+        break;
+      case 'q':
+        key += 'K';
+        break;
+      case 's':
+        if (next === 'h' || (next === 'i' && (afterNext === 'o' || afterNext === 'a'))) key += 'X';
+        else key += 'S';
+        break;
+      case 't':
+        if (next === 'i' && (afterNext === 'o' || afterNext === 'a')) key += 'X';
+        else if (next === 'h') key += '0';
+        else if (!(next === 'c' && afterNext === 'h')) key += 'T';
+        break;
+      case 'v':
+        key += 'F';
+        break;
+      case 'w':
+      case 'y':
+        if (isVowel(next)) key += letter.toUpperCase();
+        break;
+      case 'x':
+        key += 'KS';
+        break;
+      case 'z':
+        key += 'S';
+        break;
+      default:
+        key += letter.toUpperCase();
+    }
+  }
+
+  return key;
+}
+
+/**
+ * Metaphone key of every word, e.g. "Stephen Knight" → "STFN NT"
+ */
+export function metaphone(value: string): string {
+  return tokenize(value).map(metaphoneWord).filter(code => code !== '').join(' ');
+}
+
+/**
+ * Sorted, de-duplicated character n-grams of the value with whitespace
+ * removed, so "Jon Smith" and "JonSmith." share a fingerprint
+ */
+export function ngramFingerprint(value: string, size = 2): string {
+  const text = normalizeValue(value).replace(/ /g, '');
+  if (text.length <= size) return text;
+
+  const grams = new Set<string>();
+  for (let i = 0; i + size <= text.length; i++) {
+    grams.add(text.slice(i, i + size));
+  }
+  return [...grams].sort().join('');
+}
+
+/**
+ * Key of a value for a key algorithm
+ */
+function matchKey(value: string, algorithm: FuzzyAlgorithm): string {
+  switch (algorithm) {
+    case 'soundex':
+      return soundex(value);
+    case 'metaphone':
+      return metaphone(value);
+    default:
+      return ngramFingerprint(value);
+  }
+}
+
+/**
+ * Similarity of two normalized values for a similarity algorithm
+ */
+function similarity(a: string, b: string, algorithm: FuzzyAlgorithm): number {
+  switch (algorithm) {
+    case 'jaroWinkler':
+      return jaroWinkler(a, b);
+    case 'tokenSet':
+      return tokenSetRatio(a, b);
+    default:
+      return levenshteinSimilarity(a, b);
+  }
+}
+
+/**
+ * Block key of a normalized value
+ */
+function blockKey(normalized: string, options: FuzzyMatchOptions): string {
+  switch (options.blocking) {
+    case 'prefix':
+      return normalized.slice(0, options.prefixLength ?? 2);
+    case 'soundex':
+      return soundexWord(normalized.split(' ')[0]);
+    case 'firstToken':
+      return normalized.split(' ')[0];
+    default:
+      return '';
+  }
+}
+
+/**
+ * Find clusters of similar values in a column. Values are compared once per
+ * distinct value, and similarity algorithms only compare values within the
+ * same block, which keeps large files tractable. Only clusters with more than
+ * one distinct value are returned, largest first.
+ */
+export function findClusters(data: string[][], column: number, options: FuzzyMatchOptions): FuzzyCluster[] {
+  // Group rows by exact value
+  const valueRows = new Map<string, number[]>();
+  data.forEach((row, rowIndex) => {
+    const value = row[column] ?? '';
+    if (value.trim() === '') return;
+    const rows = valueRows.get(value);
+    if (rows) {
+      rows.push(rowIndex);
+    } else {
+      valueRows.set(value, [rowIndex]);
+    }
+  });
+
+  const values = Array.from(valueRows.keys());
+  const normalized = values.map(normalizeValue);
+
+  // Union-find over distinct values
+  const parent = values.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const kind = FUZZY_ALGORITHMS.find(({ value }) => value === options.algorithm)?.kind;
+
+  if (kind === 'key') {
+    const firstWithKey = new Map<string, number>();
+    values.forEach((value, index) => {
+      const key = matchKey(value, options.algorithm);
+      if (key === '') return;
+      const first = firstWithKey.get(key);
+      if (first === undefined) {
+        firstWithKey.set(key, index);
+      } else {
+        union(index, first);
+      }
+    });
+  } else {
+    const blocks = new Map<string, number[]>();
+    normalized.forEach((value, index) => {
+      const key = blockKey(value, options);
+      const block = blocks.get(key);
+      if (block) {
+        block.push(index);
+      } else {
+        blocks.set(key, [index]);
+      }
+    });
+
+    blocks.forEach(block => {
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const a = block[i];
+          const b = block[j];
+          if (find(a) === find(b)) continue;
+          if (similarity(normalized[a], normalized[b], options.algorithm) >= options.threshold) {
+            union(a, b);
+          }
+        }
+      }
+    });
+  }
+
+  const groups = new Map<number, ClusterValue[]>();
+  values.forEach((value, index) => {
+    const root = find(index);
+    const group = groups.get(root) ?? [];
+    group.push({ value, rows: valueRows.get(value)! });
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => {
+      const sorted = group.sort((a, b) => b.rows.length - a.rows.length);
+      return { id: sorted.map(({ value }) => value).join('\u0000'), values: sorted };
+    })
+    .sort((a, b) => clusterRowCount(b) - clusterRowCount(a));
+}
+
+/**
+ * Number of rows holding any value of the cluster
+ */
+export function clusterRowCount(cluster: FuzzyCluster): number {
+  return cluster.values.reduce((total, { rows }) => total + rows.length, 0);
+}
+
+/**
+ * Apply the review decisions to the data. Merged clusters keep their first
+ * row, fill its empty cells from the other rows in order and drop the rest;
+ * canonical clusters rewrite the column and keep every row.
+ */
+export function applyClusterDecisions(
+  data: string[][],
+  column: number,
+  clusters: FuzzyCluster[],
+  decisions: Record<string, ClusterDecision>
+): {
+  data: string[][],
+  rowsMerged: number,
+  cellsUpdated: number,
+  /** Input index of every row of `data` */
+  kept: number[],
+  /** Each merged-away row with the row it was merged into */
+  merged: { index: number, into: number }[]
+} {
+  const rows = data.map(row => [...row]);
+  const removed = new Map<number, number>();
+  let cellsUpdated = 0;
+
+  for (const cluster of clusters) {
+    const decision = decisions[cluster.id];
+    if (!decision || decision.action === 'reject') continue;
+
+    const clusterRows = cluster.values.flatMap(({ rows }) => rows).sort((a, b) => a - b);
+    const rewritten = decision.action === 'merge' ? clusterRows.slice(0, 1) : clusterRows;
+
+    for (const rowIndex of rewritten) {
+      if (rows[rowIndex][column] !== decision.canonical) {
+        rows[rowIndex][column] = decision.canonical;
+        cellsUpdated++;
+      }
+    }
+
+    if (decision.action === 'merge') {
+      const [survivor, ...others] = clusterRows;
+      for (const rowIndex of others) {
+        rows[rowIndex].forEach((cell, cellIndex) => {
+          if ((rows[survivor][cellIndex] ?? '').trim() === '' && (cell ?? '').trim() !== '') {
+            rows[survivor][cellIndex] = cell;
+          }
+        });
+        removed.set(rowIndex, survivor);
+      }
+    }
+  }
+
+  const kept = rows.map((_, rowIndex) => rowIndex).filter(rowIndex => !removed.has(rowIndex));
+
+  return {
+    data: kept.map(rowIndex => rows[rowIndex]),
+    rowsMerged: removed.size,
+    cellsUpdated,
+    kept,
+    merged: [...removed.entries()].map(([index, into]) => ({ index, into })).sort((a, b) => a.index - b.index),
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Header cleanup: naming conventions, stray characters, blank and duplicate
+ * header names. Headers are taken verbatim from the first line of a file, so
+ * they often carry byte order marks, inconsistent styles or repeated names.
+ */
+
+export type HeaderCase = 'keep' | 'snake' | 'camel' | 'title';
+
+export const HEADER_CASES: { value: HeaderCase; label: string; example: string }[] = [
+  { value: 'keep', label: 'Keep as is', example: 'Order ID' },
+  { value: 'snake', label: 'snake_case', example: 'order_id' },
+  { value: 'camel', label: 'camelCase', example: 'orderId' },
+  { value: 'title', label: 'Title Case', example: 'Order Id' },
+];
+
+export interface HeaderOptions {
+  caseStyle: HeaderCase;
+  /** Drop everything but letters, digits, spaces, underscores and hyphens */
+  stripSpecial: boolean;
+  /** Name blank headers after their position, e.g. "Column 3", in the chosen case */
+  nameBlanks: boolean;
+  /** Add a numeric suffix to repeated names, ignoring case, e.g. "amount_2" */
+  deduplicate: boolean;
+}
+
+export const DEFAULT_HEADER_OPTIONS: HeaderOptions = {
+  caseStyle: 'keep',
+  stripSpecial: false,
+  nameBlanks: true,
+  deduplicate: true,
+};
+
+// Byte order marks, also as mis-decoded UTF-8, and zero-width characters
+const INVISIBLE = /\uFEFF|ï»¿|[\u200B-\u200D\u2060]/g;
+
+const SUFFIX_SEPARATORS: Record<HeaderCase, string> = { keep: '_', snake: '_', camel: '', title: ' ' };
+
+/**
+ * Split a header into words at spaces, underscores, hyphens and camelCase
+ * boundaries
+ */
+function splitWords(header: string): string[] {
+  return header
+    .replace(/([\p{Ll}\d])(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(word => word !== '');
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/**
+ * Write a header in the given naming convention
+ */
+export function convertHeaderCase(header: string, caseStyle: HeaderCase): string {
+  const words = splitWords(header);
+  switch (caseStyle) {
+    case 'keep':
+      return header;
+    case 'snake':
+      return words.map(word => word.toLowerCase()).join('_');
+    case 'camel':
+      return words.map((word, index) => (index === 0 ? word.toLowerCase() : capitalize(word))).join('');
+    case 'title':
+      return words.map(capitalize).join(' ');
+  }
+}
+
+/**
+ * Clean up a row of headers. Byte order marks and invisible characters are
+ * always removed and whitespace is collapsed; the rest follows the options.
+ */
+export function normalizeHeaders(headers: string[], options: HeaderOptions): string[] {
+  const cleaned = headers.map((header, index) => {
+    let name = header.replace(INVISIBLE, '').replace(/\s+/g, ' ').trim();
+    if (options.stripSpecial) {
+      name = name.replace(/[^\p{L}\p{N}\s_-]/gu, ' ').replace(/\s+/g, ' ').trim();
+    }
+    if (name === '' && options.nameBlanks) name = `Column ${index + 1}`;
+    return name === '' ? '' : convertHeaderCase(name, options.caseStyle);
+  });
+
+  if (!options.deduplicate) return cleaned;
+
+  // First occurrences keep their names; later ones get the first suffix,
+  // starting at 2, that no other header uses
+  const separator = SUFFIX_SEPARATORS[options.caseStyle];
+  const keys = cleaned.map(name => name.toLowerCase());
+  const taken = new Set(keys);
+  return cleaned.map((name, index) => {
+    if (name === '' || keys.indexOf(keys[index]) === index) return name;
+    let unique = name;
+    for (let suffix = 2; taken.has(unique.toLowerCase()); suffix++) unique = `${name}${separator}${suffix}`;
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+/**
+ * Headers whose names change, as old → new pairs
+ */
+export function headerChanges(before: string[], after: string[]): { column: number; from: string; to: string }[] {
+  return before
+    .map((from, column) => ({ column, from, to: after[column] }))
+    .filter(({ from, to }) => from !== to);
+}
@@ -0,0 +1,19 @@
+/**
+ * @data-refine/core: framework-agnostic parsing, writing, type inference and
+ * cleaning of tabular data. Nothing here touches the DOM, so it runs in
+ * browsers, workers and Node alike.
+ */
+
+export * from './csvUtils';
+export * from './encodingUtils';
+export * from './jsonUtils';
+export * from './typeInference';
+export * from './rowQuery';
+export * from './columnSelector';
+export * from './columnLayout';
+export * from './headerNormalization';
+export * from './raggedRows';
+export * from './pipeline';
+export * from './changeReport';
+export * from './recipe';
+export * from './fuzzyMatch';
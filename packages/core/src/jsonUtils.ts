@@ -0,0 +1,88 @@
+/**
+ * JSON and newline-delimited JSON import, flattening nested records into the
+ * same headers + string rows model used for CSV files.
+ */
+
+export type JSONFormat = 'json' | 'ndjson';
+
+/**
+ * How array values are turned into cells: "stringify" keeps the array as JSON
+ * text in a single cell, "explode" emits one row per array element
+ */
+export type ArrayMode = 'stringify' | 'explode';
+
+type FlatRecord = Record<string, string>;
+
+/**
+ * Parse JSON text into a list of records. A JSON document may be an array of
+ * records or a single record; NDJSON holds one record per non-blank line.
+ */
+export function parseJSONRecords(content: string, format: JSONFormat): unknown[] {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  if (format === 'json') {
+    const parsed: unknown = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  }
+
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  return records;
+}
+
+/**
+ * Flatten a value into one or more rows keyed by dotted paths
+ */
+function flattenValue(value: unknown, path: string, arrayMode: ArrayMode): FlatRecord[] {
+  if (Array.isArray(value)) {
+    if (arrayMode === 'stringify') return [{ [path || 'value']: JSON.stringify(value) }];
+    if (value.length === 0) return [{ [path || 'value']: '' }];
+    return value.flatMap(item => flattenValue(item, path, arrayMode));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return [path ? { [path]: '' } : {}];
+
+    // Combine the rows of every property; exploded arrays multiply the rows
+    let rows: FlatRecord[] = [{}];
+    for (const [key, child] of entries) {
+      const childRows = flattenValue(child, path ? `${path}.${key}` : key, arrayMode);
+      rows = rows.flatMap(row => childRows.map(childRow => ({ ...row, ...childRow })));
+    }
+    return rows;
+  }
+
+  return [{ [path || 'value']: value === null || value === undefined ? '' : String(value) }];
+}
+
+/**
+ * Flatten records into headers and data rows. Nested objects become dotted
+ * column names (e.g. "address.city"), and the headers are the union of every
+ * record's keys in order of first appearance.
+ */
+export function flattenRecords(
+  records: unknown[],
+  arrayMode: ArrayMode = 'stringify'
+): { data: string[][], headers: string[] } {
+  const rows = records.flatMap(record => flattenValue(record, '', arrayMode));
+
+  const headerIndex = new Map<string, number>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!headerIndex.has(key)) headerIndex.set(key, headerIndex.size);
+    }
+  }
+
+  const headers = Array.from(headerIndex.keys());
+  const data = rows.map(row => headers.map(header => row[header] ?? ''));
+
+  return { data, headers };
+}
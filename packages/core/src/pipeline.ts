@@ -0,0 +1,510 @@
+/**
+ * Cleaning pipeline: an ordered list of configurable steps that are run one
+ * after another over the data.
+ */
+
+import {
+  DeduplicateOptions,
+  EmptyRowOptions,
+  SurvivorshipRule,
+  findEmptyRows,
+  removeDuplicates,
+  standardizeCase,
+  trimWhitespace,
+} from './csvUtils';
+import { ALL_COLUMNS, ColumnSelector, resolveColumns } from './columnSelector';
+import { ColumnSpec, applyColumnLayout } from './columnLayout';
+import { DEFAULT_HEADER_OPTIONS, HeaderOptions, normalizeHeaders } from './headerNormalization';
+import { DEFAULT_RAGGED_ROW_OPTIONS, RaggedRowOptions, repairRaggedRows } from './raggedRows';
+import { ColumnSchema, TEXTUAL_TYPES } from './typeInference';
+
+/**
+ * Empty-row settings as edited in the UI; key columns are a selector so they
+ * follow the headers rather than fixed positions
+ */
+export interface EmptyRowConfig {
+  mode: EmptyRowOptions['mode'];
+  keyColumns: ColumnSelector;
+  percent: number;
+}
+
+/**
+ * Deduplication settings as edited in the UI
+ */
+export interface DuplicateConfig {
+  keyColumns: ColumnSelector;
+  caseSensitive: boolean;
+  accentSensitive: boolean;
+  whitespace: NonNullable<DeduplicateOptions['whitespace']>;
+  survivorship: SurvivorshipRule;
+  /** Header of the date column used by the "latest" rule */
+  dateColumn: string;
+}
+
+/**
+ * A value typed into a cell by hand. `row` and `column` index the data
+ * entering the step, so the step sits right after the steps that produced the
+ * data the edit was made on; the edit only applies while the cell still holds
+ * `previous`.
+ */
+export interface CellEdit {
+  row: number;
+  /** Position of the edited column, as a file may repeat a header */
+  column: number;
+  previous: string;
+  value: string;
+}
+
+export interface ColumnsConfig {
+  /** Headers the layout was made for; its sources are positions in them */
+  from: string[];
+  columns: ColumnSpec[];
+}
+
+export type PipelineStep =
+  | { id: string; type: 'normalizeHeaders'; enabled: boolean; config: HeaderOptions }
+  | { id: string; type: 'repairRaggedRows'; enabled: boolean; config: RaggedRowOptions }
+  | { id: string; type: 'removeEmptyRows'; enabled: boolean; config: EmptyRowConfig }
+  | { id: string; type: 'removeDuplicates'; enabled: boolean; config: DuplicateConfig }
+  | { id: string; type: 'trimWhitespace'; enabled: boolean; config: { columns: ColumnSelector } }
+  | { id: string; type: 'standardizeCase'; enabled: boolean; config: { columns: ColumnSelector } }
+  | { id: string; type: 'editCells'; enabled: boolean; config: { edits: CellEdit[] } }
+  | { id: string; type: 'manageColumns'; enabled: boolean; config: ColumnsConfig };
+
+export type StepType = PipelineStep['type'];
+
+export const STEP_TYPES: { value: StepType; label: string }[] = [
+  { value: 'normalizeHeaders', label: 'Clean up headers' },
+  { value: 'repairRaggedRows', label: 'Repair ragged rows' },
+  { value: 'removeEmptyRows', label: 'Remove empty rows' },
+  { value: 'removeDuplicates', label: 'Remove duplicate rows' },
+  { value: 'trimWhitespace', label: 'Trim whitespace' },
+  { value: 'standardizeCase', label: 'Standardize text case' },
+  { value: 'editCells', label: 'Manual edits' },
+  { value: 'manageColumns', label: 'Manage columns' },
+];
+
+export const stepLabel = (type: StepType) => STEP_TYPES.find(({ value }) => value === type)!.label;
+
+/**
+ * The headers and column types steps resolve their column selectors against
+ */
+export interface PipelineContext {
+  headers: string[];
+  schema: ColumnSchema[];
+  /** Columns left out of exported files */
+  hiddenColumns?: string[];
+  /** Ids of the layout and manual edit steps the data already has */
+  appliedSteps?: string[];
+}
+
+/**
+ * Why a step removed a row: it was blank, it duplicated another row, it was
+ * merged into another row, or it failed a rule such as blank key columns
+ */
+export type RemovalReason = 'empty' | 'duplicate' | 'merged' | 'filtered' | 'quarantined';
+
+/**
+ * A row removed by a step; row indices refer to the data entering the step
+ */
+export interface StepRemoval {
+  row: number;
+  reason: RemovalReason;
+  /** Rule that filtered the row, e.g. "key columns blank" */
+  detail?: string;
+  /** Row kept in place of a duplicate, or the row a merged row went into */
+  duplicateOf?: number;
+}
+
+export interface StepResult {
+  stepId: string;
+  /** Data after the step */
+  data: string[][];
+  rowsBefore: number;
+  rowsAfter: number;
+  cellsChanged: number;
+  /** Index of the input row each output row came from */
+  sourceRows: number[];
+  removals: StepRemoval[];
+  /** Columns after the step, for steps that change them; later steps run against these */
+  context?: PipelineContext;
+}
+
+const newStepId = () => Math.random().toString(36).slice(2, 10);
+
+/**
+ * Create a step with its default configuration
+ */
+export function createStep(type: StepType, enabled = true): PipelineStep {
+  const id = newStepId();
+
+  switch (type) {
+    case 'removeEmptyRows':
+      return { id, type, enabled, config: { mode: 'all', keyColumns: { mode: 'columns', columns: [] }, percent: 50 } };
+    case 'removeDuplicates':
+      return {
+        id,
+        type,
+        enabled,
+        config: {
+          keyColumns: ALL_COLUMNS,
+          caseSensitive: false,
+          accentSensitive: true,
+          whitespace: 'trim',
+          survivorship: 'first',
+          dateColumn: '',
+        },
+      };
+    case 'trimWhitespace':
+      return { id, type, enabled, config: { columns: ALL_COLUMNS } };
+    case 'standardizeCase':
+      return { id, type, enabled, config: { columns: { mode: 'types', types: TEXTUAL_TYPES } } };
+    case 'normalizeHeaders':
+      return { id, type, enabled, config: { ...DEFAULT_HEADER_OPTIONS } };
+    case 'repairRaggedRows':
+      return { id, type, enabled, config: { ...DEFAULT_RAGGED_ROW_OPTIONS } };
+    case 'editCells':
+      return { id, type, enabled, config: { edits: [] } };
+    case 'manageColumns':
+      return { id, type, enabled, config: { from: [], columns: [] } };
+  }
+}
+
+/**
+ * Create a "Manual edits" step holding the given edits
+ */
+export function createEditStep(edits: CellEdit[]): PipelineStep {
+  return { id: newStepId(), type: 'editCells', enabled: true, config: { edits } };
+}
+
+/**
+ * Create a "Manage columns" step that lays out the given headers' columns
+ */
+export function createColumnsStep(from: string[], columns: ColumnSpec[]): PipelineStep {
+  return { id: newStepId(), type: 'manageColumns', enabled: true, config: { from, columns } };
+}
+
+/**
+ * The pipeline new files start with
+ */
+export function defaultPipeline(): PipelineStep[] {
+  return [
+    createStep('removeEmptyRows'),
+    createStep('removeDuplicates'),
+    createStep('trimWhitespace'),
+    createStep('standardizeCase', false),
+  ];
+}
+
+const columnTypes = (context: PipelineContext) => context.schema.map(column => column.type);
+
+export function toEmptyRowOptions(config: EmptyRowConfig, context: PipelineContext): EmptyRowOptions {
+  switch (config.mode) {
+    case 'all':
+      return { mode: 'all' };
+    case 'keyColumns':
+      return { mode: 'keyColumns', columns: resolveColumns(config.keyColumns, context.headers, columnTypes(context)) };
+    case 'threshold':
+      return { mode: 'threshold', percent: config.percent };
+  }
+}
+
+export function toDeduplicateOptions(config: DuplicateConfig, context: PipelineContext): DeduplicateOptions {
+  const dateColumn = context.headers.indexOf(config.dateColumn);
+  return {
+    keyColumns: resolveColumns(config.keyColumns, context.headers, columnTypes(context)),
+    caseSensitive: config.caseSensitive,
+    accentSensitive: config.accentSensitive,
+    whitespace: config.whitespace,
+    survivorship: config.survivorship,
+    dateColumn: dateColumn >= 0 ? dateColumn : undefined,
+    dateFormat: dateColumn >= 0 ? context.schema[dateColumn]?.format : undefined,
+  };
+}
+
+/**
+ * Count cells that differ between two tables with the same rows
+ */
+function countChangedCells(before: string[][], after: string[][]): number {
+  let count = 0;
+  after.forEach((row, rowIndex) => {
+    row.forEach((cell, cellIndex) => {
+      if (cell !== before[rowIndex][cellIndex]) count++;
+    });
+  });
+  return count;
+}
+
+/**
+ * The rule an empty-row step filters by, or undefined when only fully blank
+ * rows are removed
+ */
+function describeEmptyRule(options: EmptyRowOptions): string | undefined {
+  switch (options.mode) {
+    case 'keyColumns':
+      return 'key columns blank';
+    case 'threshold':
+      return `more than ${options.percent}% of cells blank`;
+    default:
+      return undefined;
+  }
+}
+
+const sameHeaders = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((header, index) => header === b[index]);
+
+/**
+ * Apply manual edits whose cell still holds the value it had when edited
+ */
+function applyCellEdits(data: string[][], columnCount: number, edits: CellEdit[]): string[][] {
+  const edited = [...data];
+  edits.forEach(edit => {
+    const row = edited[edit.row];
+    if (edit.column >= columnCount || !row || (row[edit.column] ?? '') !== edit.previous) return;
+    edited[edit.row] = row.map((cell, index) => (index === edit.column ? edit.value : cell));
+  });
+  return edited;
+}
+
+/**
+ * Run a single step over the data
+ */
+export function runStep(step: PipelineStep, data: string[][], context: PipelineContext): StepResult {
+  let result: {
+    data: string[][],
+    cellsChanged: number,
+    sourceRows?: number[],
+    removals?: StepRemoval[],
+    context?: PipelineContext
+  };
+
+  switch (step.type) {
+    case 'normalizeHeaders': {
+      const headers = normalizeHeaders(context.headers, step.config);
+      // Hidden columns keep being hidden under their new names
+      const hiddenColumns = context.hiddenColumns?.map(name => headers[context.headers.indexOf(name)] ?? name);
+      result = { data, cellsChanged: 0, context: { ...context, headers, hiddenColumns } };
+      break;
+    }
+    case 'repairRaggedRows': {
+      const columnCount = context.headers.length;
+      const { data: repaired, kept, joined, quarantined, cellsChanged } = repairRaggedRows(
+        data,
+        columnCount,
+        step.config
+      );
+      result = {
+        data: repaired,
+        cellsChanged,
+        sourceRows: kept,
+        removals: [
+          ...joined.map(({ index, into }): StepRemoval => ({ row: index, reason: 'merged', duplicateOf: into })),
+          ...quarantined.map(({ index, cells }): StepRemoval => ({
+            row: index,
+            reason: 'quarantined',
+            detail: `${cells} ${cells === 1 ? 'cell' : 'cells'}, expected ${columnCount}`,
+          })),
+        ].sort((a, b) => a.row - b.row),
+      };
+      break;
+    }
+    case 'removeEmptyRows': {
+      const options = toEmptyRowOptions(step.config, context);
+      const emptyRows = new Set(findEmptyRows(data, options));
+      const sourceRows = data.map((_, index) => index).filter(index => !emptyRows.has(index));
+      const detail = describeEmptyRule(options);
+      result = {
+        data: sourceRows.map(index => data[index]),
+        cellsChanged: 0,
+        sourceRows,
+        removals: [...emptyRows].map((row): StepRemoval =>
+          detail ? { row, reason: 'filtered', detail } : { row, reason: 'empty' }
+        ),
+      };
+      break;
+    }
+    case 'removeDuplicates': {
+      const { data: unique, kept, removed } = removeDuplicates(data, toDeduplicateOptions(step.config, context));
+      result = {
+        data: unique,
+        cellsChanged: 0,
+        sourceRows: kept,
+        removals: removed.map(({ index, duplicateOf }): StepRemoval => ({ row: index, reason: 'duplicate', duplicateOf })),
+      };
+      break;
+    }
+    case 'trimWhitespace': {
+      const { data: trimmed, count } = trimWhitespace(
+        data,
+        resolveColumns(step.config.columns, context.headers, columnTypes(context))
+      );
+      result = { data: trimmed, cellsChanged: count };
+      break;
+    }
+    case 'standardizeCase': {
+      const changed = standardizeCase(
+        data,
+        context.headers,
+        resolveColumns(step.config.columns, context.headers, columnTypes(context))
+      );
+      result = { data: changed, cellsChanged: countChangedCells(data, changed) };
+      break;
+    }
+    case 'editCells': {
+      // Edits index the rows they were made on, which later steps may have
+      // removed or reordered, so data that already has them is left alone
+      const appliedSteps = context.appliedSteps ?? [];
+      if (appliedSteps.includes(step.id)) {
+        result = { data, cellsChanged: 0 };
+        break;
+      }
+      const edited = applyCellEdits(data, context.headers.length, step.config.edits);
+      result = {
+        data: edited,
+        cellsChanged: countChangedCells(data, edited),
+        context: { ...context, appliedSteps: [...appliedSteps, step.id] },
+      };
+      break;
+    }
+    case 'manageColumns': {
+      // The layout applies once, and only to the columns it was made for:
+      // data that already has it, e.g. when the pipeline runs again, and
+      // other columns, whose positions mean nothing to the layout, are left
+      // alone
+      const { from, columns } = step.config;
+      const appliedSteps = context.appliedSteps ?? [];
+      if (columns.length === 0 || appliedSteps.includes(step.id) || !sameHeaders(context.headers, from)) {
+        result = { data, cellsChanged: 0 };
+        break;
+      }
+      const { data: laidOut, ...laidOutContext } = applyColumnLayout(data, context.schema, columns);
+      result = {
+        data: laidOut,
+        cellsChanged: 0,
+        context: { ...context, ...laidOutContext, appliedSteps: [...appliedSteps, step.id] },
+      };
+      break;
+    }
+  }
+
+  return {
+    stepId: step.id,
+    data: result.data,
+    rowsBefore: data.length,
+    rowsAfter: result.data.length,
+    cellsChanged: result.cellsChanged,
+    // Steps that only change cells keep every row in place
+    sourceRows: result.sourceRows ?? data.map((_, index) => index),
+    removals: result.removals ?? [],
+    context: result.context,
+  };
+}
+
+/**
+ * Run the enabled steps in order, stopping after `untilStepId` when given.
+ * Returns the result of every step that ran; the last one holds the output.
+ */
+export function runPipeline(
+  steps: PipelineStep[],
+  data: string[][],
+  context: PipelineContext,
+  untilStepId?: string
+): StepResult[] {
+  const results: StepResult[] = [];
+  let current = data;
+  let currentContext = context;
+
+  for (const step of steps) {
+    if (step.enabled) {
+      const result = runStep(step, current, currentContext);
+      results.push(result);
+      current = result.data;
+      currentContext = result.context ?? currentContext;
+    }
+    if (step.id === untilStepId) break;
+  }
+
+  return results;
+}
+
+/**
+ * The columns after the given results, starting from `context`
+ */
+export function contextAfter(results: StepResult[], context: PipelineContext): PipelineContext {
+  return results.reduce((current, result) => result.context ?? current, context);
+}
+
+/**
+ * Summarize what a step changed, e.g. "12 rows removed" or "40 cells changed"
+ */
+export function describeStepResult(result: StepResult): string {
+  if (result.context && result.cellsChanged === 0) return `${result.context.headers.length} columns`;
+  const rowsRemoved = result.rowsBefore - result.rowsAfter;
+  if (rowsRemoved > 0) return `${rowsRemoved} rows removed`;
+  return result.cellsChanged > 0 ? `${result.cellsChanged} cells changed` : 'No changes';
+}
+
+/**
+ * Move the step at one position to another, shifting the steps in between
+ */
+export function moveStep(steps: PipelineStep[], from: number, to: number): PipelineStep[] {
+  const reordered = [...steps];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+}
+
+/**
+ * Add a manual edit to the pipeline, right after the steps that produced the
+ * data it was made on: the last of `applied`, which are the ids of the steps
+ * run on that data, or the end of the pipeline. The edit joins a "Manual
+ * edits" step already there, or a new one with the given id.
+ */
+export function addCellEdit(
+  steps: PipelineStep[],
+  edit: CellEdit,
+  applied?: string[],
+  id = newStepId()
+): PipelineStep[] {
+  const position = applied
+    ? steps.reduce((after, step, index) => (applied.includes(step.id) ? index + 1 : after), 0)
+    : steps.length;
+  const last = steps[position - 1];
+  if (last?.type === 'editCells') {
+    // A later edit of the same cell replaces the earlier one
+    const earlier = last.config.edits.find(({ row, column }) => row === edit.row && column === edit.column);
+    const edits = last.config.edits.filter(existing => existing !== earlier);
+    const merged = earlier ? { ...edit, previous: earlier.previous } : edit;
+    // Editing a cell back to its value drops the edit
+    const next = merged.value === merged.previous ? edits : [...edits, merged];
+    return steps.map(step => (step === last ? { ...last, config: { edits: next } } : step));
+  }
+
+  return [...steps.slice(0, position), { ...createEditStep([edit]), id }, ...steps.slice(position)];
+}
+
+/**
+ * Take a manual edit back out of the pipeline, the inverse of addCellEdit.
+ * When the edit was merged into a later one of the same cell, the cell goes
+ * back to the value it had before; "Manual edits" steps left empty are removed.
+ * An edit that was dropped by editing the cell back is restored.
+ */
+export function removeCellEdit(steps: PipelineStep[], edit: CellEdit): PipelineStep[] {
+  for (let index = steps.length - 1; index >= 0; index--) {
+    const step = steps[index];
+    if (step.type !== 'editCells') continue;
+    const existing = step.config.edits.find(
+      ({ row, column, value }) => row === edit.row && column === edit.column && value === edit.value
+    );
+    if (!existing) continue;
+
+    const edits =
+      existing.previous === edit.previous
+        ? step.config.edits.filter(other => other !== existing)
+        : step.config.edits.map(other => (other === existing ? { ...other, value: edit.previous } : other));
+    return edits.length === 0
+      ? steps.filter(other => other !== step)
+      : steps.map(other => (other === step ? { ...step, config: { edits } } : other));
+  }
+  return addCellEdit(steps, { ...edit, previous: edit.value, value: edit.previous });
+}
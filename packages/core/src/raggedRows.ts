@@ -0,0 +1,137 @@
+/**
+ * Ragged rows: rows with fewer or more cells than there are headers, usually
+ * from unquoted delimiters or line breaks inside fields. They are counted
+ * while parsing and can be repaired by a pipeline step.
+ */
+
+export interface RaggedRowSummary {
+  /** Rows with fewer cells than headers */
+  short: number;
+  /** Rows with more cells than headers */
+  long: number;
+  /** Indices of the ragged rows, in order */
+  rows: number[];
+}
+
+export type ShortRowRepair = 'pad' | 'joinNext' | 'quarantine';
+export type LongRowRepair = 'truncate' | 'mergeOverflow' | 'quarantine';
+
+export const SHORT_ROW_REPAIRS: { value: ShortRowRepair; label: string }[] = [
+  { value: 'pad', label: 'Pad with empty cells' },
+  { value: 'joinNext', label: 'Join with the next line' },
+  { value: 'quarantine', label: 'Quarantine the row' },
+];
+
+export const LONG_ROW_REPAIRS: { value: LongRowRepair; label: string }[] = [
+  { value: 'mergeOverflow', label: 'Merge extras into the last column' },
+  { value: 'truncate', label: 'Drop the extra cells' },
+  { value: 'quarantine', label: 'Quarantine the row' },
+];
+
+export interface RaggedRowOptions {
+  shortRows: ShortRowRepair;
+  longRows: LongRowRepair;
+  /** Put between the cells merged into the last column, normally the file's delimiter */
+  separator: string;
+}
+
+export const DEFAULT_RAGGED_ROW_OPTIONS: RaggedRowOptions = {
+  shortRows: 'pad',
+  longRows: 'mergeOverflow',
+  separator: ',',
+};
+
+/**
+ * Count the rows whose length differs from the number of columns
+ */
+export function summarizeRaggedRows(data: string[][], columnCount: number): RaggedRowSummary {
+  const summary: RaggedRowSummary = { short: 0, long: 0, rows: [] };
+  data.forEach((row, index) => {
+    if (row.length === columnCount) return;
+    if (row.length < columnCount) summary.short++;
+    else summary.long++;
+    summary.rows.push(index);
+  });
+  return summary;
+}
+
+/**
+ * Short description of a summary, e.g. "3 rows with missing cells, 1 with extra cells"
+ */
+export function describeRaggedRows(summary: Pick<RaggedRowSummary, 'short' | 'long'>): string {
+  const parts = [
+    summary.short > 0 ? `${summary.short} ${summary.short === 1 ? 'row' : 'rows'} with missing cells` : null,
+    summary.long > 0 ? `${summary.long} ${summary.long === 1 ? 'row' : 'rows'} with extra cells` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No ragged rows';
+}
+
+/**
+ * Bring every row to `columnCount` cells. Joining glues a short row and the
+ * lines after it back together with a line break, as when a field held an
+ * unquoted line break; rows still short after that are padded, and rows
+ * joined too far are repaired as long rows.
+ */
+export function repairRaggedRows(
+  data: string[][],
+  columnCount: number,
+  options: RaggedRowOptions
+): {
+  data: string[][],
+  /** Index of the input row each output row came from */
+  kept: number[],
+  /** Rows joined onto an earlier row */
+  joined: { index: number, into: number }[],
+  quarantined: { index: number, cells: number }[],
+  cellsChanged: number,
+} {
+  const repaired: string[][] = [];
+  const kept: number[] = [];
+  const joined: { index: number, into: number }[] = [];
+  const quarantined: { index: number, cells: number }[] = [];
+  let cellsChanged = 0;
+
+  for (let index = 0; index < data.length; index++) {
+    const start = index;
+    let row = data[start];
+
+    if (row.length < columnCount && options.shortRows === 'quarantine') {
+      quarantined.push({ index: start, cells: row.length });
+      continue;
+    }
+    if (options.shortRows === 'joinNext') {
+      // The first cell of the next line continues the last cell of this one
+      while (row.length < columnCount && index + 1 < data.length) {
+        index++;
+        const [continued = '', ...rest] = data[index];
+        row = [...row.slice(0, -1), `${row[row.length - 1] ?? ''}\n${continued}`, ...rest];
+        joined.push({ index, into: start });
+      }
+    }
+    if (row.length > columnCount && options.longRows === 'quarantine') {
+      quarantined.push({ index: start, cells: row.length });
+      continue;
+    }
+
+    if (row.length < columnCount) {
+      row = [...row, ...new Array<string>(columnCount - row.length).fill('')];
+    } else if (row.length > columnCount) {
+      row =
+        options.longRows === 'mergeOverflow' && columnCount > 0
+          ? [...row.slice(0, columnCount - 1), row.slice(columnCount - 1).join(options.separator)]
+          : row.slice(0, columnCount);
+    }
+
+    const source = data[start];
+    if (row !== source) {
+      const width = Math.max(row.length, source.length);
+      for (let column = 0; column < width; column++) {
+        if ((row[column] ?? '') !== (source[column] ?? '')) cellsChanged++;
+      }
+    }
+    repaired.push(row);
+    kept.push(start);
+  }
+
+  return { data: repaired, kept, joined, quarantined, cellsChanged };
+}
@@ -0,0 +1,303 @@
+/**
+ * Cleaning recipes: a pipeline saved as versioned JSON so it can be reused on
+ * other files and shared between machines.
+ */
+
+import { ColumnSelector, compileHeaderPattern } from './columnSelector';
+import { HEADER_CASES, normalizeHeaders } from './headerNormalization';
+import {
+  DuplicateConfig,
+  EmptyRowConfig,
+  PipelineStep,
+  STEP_TYPES,
+  StepType,
+  createStep,
+  stepLabel,
+} from './pipeline';
+import { LONG_ROW_REPAIRS, SHORT_ROW_REPAIRS } from './raggedRows';
+import { COLUMN_TYPE_OPTIONS, ColumnType } from './typeInference';
+
+export const RECIPE_VERSION = 1;
+
+/** A pipeline step as stored in a recipe, without its runtime id */
+export type RecipeStep = PipelineStep extends infer Step
+  ? Step extends PipelineStep ? Omit<Step, 'id'> : never
+  : never;
+
+export interface Recipe {
+  version: number;
+  name: string;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  steps: RecipeStep[];
+  /**
+   * Column types set by the user, by header name. Steps that select columns
+   * by type use them instead of the inferred types.
+   */
+  typeOverrides?: Record<string, ColumnType>;
+}
+
+export class RecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeError';
+  }
+}
+
+export interface RecipeIssue {
+  stepIndex: number;
+  message: string;
+}
+
+export function createRecipe(
+  name: string,
+  steps: PipelineStep[],
+  typeOverrides: Record<string, ColumnType> = {}
+): Recipe {
+  return {
+    version: RECIPE_VERSION,
+    name,
+    createdAt: new Date().toISOString(),
+    steps: steps.map(({ type, enabled, config }) => ({ type, enabled, config }) as RecipeStep),
+    ...(Object.keys(typeOverrides).length > 0 && { typeOverrides }),
+  };
+}
+
+export function serializeRecipe(recipe: Recipe): string {
+  return JSON.stringify(recipe, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isCellEdit = (value: unknown): boolean =>
+  isObject(value) &&
+  Number.isInteger(value.row) &&
+  Number.isInteger(value.column) &&
+  (value.column as number) >= 0 &&
+  typeof value.previous === 'string' &&
+  typeof value.value === 'string';
+
+const isColumnSpec = (value: unknown): boolean =>
+  isObject(value) &&
+  (value.source === null || (Number.isInteger(value.source) && (value.source as number) >= 0)) &&
+  typeof value.name === 'string' &&
+  (value.value === undefined || typeof value.value === 'string');
+
+const isColumnType = (value: unknown): value is ColumnType =>
+  COLUMN_TYPE_OPTIONS.some(option => option.value === value);
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isString = (value: unknown) => typeof value === 'string';
+const isOneOf = (values: unknown[]) => (value: unknown) => values.includes(value);
+
+const isColumnSelector = (value: unknown): boolean => {
+  if (!isObject(value)) return false;
+  switch (value.mode) {
+    case 'all':
+      return true;
+    case 'columns':
+      return Array.isArray(value.columns) && value.columns.every(isString);
+    case 'types':
+      return Array.isArray(value.types) && value.types.every(isColumnType);
+    case 'pattern':
+      return isString(value.pattern);
+    default:
+      return false;
+  }
+};
+
+const EMPTY_ROW_MODES: EmptyRowConfig['mode'][] = ['all', 'keyColumns', 'threshold'];
+const WHITESPACE_MODES: DuplicateConfig['whitespace'][] = ['exact', 'trim', 'collapse'];
+const SURVIVORSHIP_RULES: DuplicateConfig['survivorship'][] = ['first', 'last', 'mostComplete', 'latest'];
+
+/** Checks for each setting of the steps whose settings are plain values and selectors */
+const CONFIG_CHECKS: { [Type in StepType]?: Record<string, (value: unknown) => boolean> } = {
+  normalizeHeaders: {
+    caseStyle: isOneOf(HEADER_CASES.map(({ value }) => value)),
+    stripSpecial: isBoolean,
+    nameBlanks: isBoolean,
+    deduplicate: isBoolean,
+  },
+  repairRaggedRows: {
+    shortRows: isOneOf(SHORT_ROW_REPAIRS.map(({ value }) => value)),
+    longRows: isOneOf(LONG_ROW_REPAIRS.map(({ value }) => value)),
+    separator: isString,
+  },
+  removeEmptyRows: {
+    mode: isOneOf(EMPTY_ROW_MODES),
+    keyColumns: isColumnSelector,
+    percent: value => typeof value === 'number' && value >= 0 && value <= 100,
+  },
+  removeDuplicates: {
+    keyColumns: isColumnSelector,
+    caseSensitive: isBoolean,
+    accentSensitive: isBoolean,
+    whitespace: isOneOf(WHITESPACE_MODES),
+    survivorship: isOneOf(SURVIVORSHIP_RULES),
+    dateColumn: isString,
+  },
+  trimWhitespace: { columns: isColumnSelector },
+  standardizeCase: { columns: isColumnSelector },
+};
+
+/**
+ * Parse and check the structure of a recipe. Settings missing from a step are
+ * filled in with the defaults, so recipes keep working when steps gain options.
+ */
+export function parseRecipe(text: string): Recipe {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new RecipeError(`Recipe is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!isObject(parsed) || !Array.isArray(parsed.steps)) {
+    throw new RecipeError('Recipe must be an object with a "steps" array');
+  }
+  if (typeof parsed.version !== 'number') {
+    throw new RecipeError('Recipe is missing its "version" number');
+  }
+  if (parsed.version > RECIPE_VERSION) {
+    throw new RecipeError(
+      `Recipe version ${parsed.version} is newer than the supported version ${RECIPE_VERSION}`
+    );
+  }
+
+  const steps = parsed.steps.map((step: unknown, index: number): RecipeStep => {
+    if (!isObject(step) || !STEP_TYPES.some(({ value }) => value === step.type)) {
+      throw new RecipeError(`Step ${index + 1} has an unknown type`);
+    }
+    if (step.config !== undefined && !isObject(step.config)) {
+      throw new RecipeError(`Step ${index + 1} has an invalid "config"`);
+    }
+
+    if (step.type === 'editCells' && isObject(step.config) && step.config.edits !== undefined) {
+      if (!Array.isArray(step.config.edits) || !step.config.edits.every(isCellEdit)) {
+        throw new RecipeError(`Step ${index + 1} has invalid "edits"`);
+      }
+    }
+    if (step.type === 'manageColumns' && isObject(step.config) && step.config.columns !== undefined) {
+      if (!Array.isArray(step.config.columns) || !step.config.columns.every(isColumnSpec)) {
+        throw new RecipeError(`Step ${index + 1} has invalid "columns"`);
+      }
+      const from = step.config.from ?? [];
+      if (!Array.isArray(from) || !from.every(header => typeof header === 'string')) {
+        throw new RecipeError(`Step ${index + 1} has invalid "from" headers`);
+      }
+      if (step.config.columns.some(column => column.source !== null && column.source >= from.length)) {
+        throw new RecipeError(`Step ${index + 1} has a column outside its "from" headers`);
+      }
+    }
+
+    const defaults = createStep(step.type as StepType);
+    const config: Record<string, unknown> = { ...defaults.config, ...(step.config as object) };
+    const invalid = Object.entries(CONFIG_CHECKS[defaults.type] ?? {}).find(([key, check]) => !check(config[key]));
+    if (invalid) {
+      throw new RecipeError(`Step ${index + 1} has invalid "${invalid[0]}"`);
+    }
+
+    return {
+      type: defaults.type,
+      enabled: step.enabled === undefined ? true : Boolean(step.enabled),
+      config,
+    } as RecipeStep;
+  });
+
+  if (
+    parsed.typeOverrides !== undefined &&
+    (!isObject(parsed.typeOverrides) || !Object.values(parsed.typeOverrides).every(isColumnType))
+  ) {
+    throw new RecipeError('Recipe has invalid "typeOverrides"');
+  }
+
+  return {
+    version: parsed.version,
+    name: typeof parsed.name === 'string' ? parsed.name : 'Untitled recipe',
+    createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+    steps,
+    ...(parsed.typeOverrides !== undefined && { typeOverrides: parsed.typeOverrides as Record<string, ColumnType> }),
+  };
+}
+
+/**
+ * Headers named by a selector that are missing from the file; pattern
+ * selectors are reported when they are invalid or match no column
+ */
+function selectorIssues(selector: ColumnSelector, headers: string[]): string[] {
+  switch (selector.mode) {
+    case 'columns':
+      return selector.columns
+        .filter(column => !headers.includes(column))
+        .map(column => `column "${column}" does not exist`);
+    case 'pattern': {
+      const regex = compileHeaderPattern(selector.pattern);
+      if (!regex) return [`pattern "${selector.pattern}" is not a valid regular expression`];
+      return headers.some(header => regex.test(header)) ? [] : [`pattern "${selector.pattern}" matches no column`];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check that every column a recipe refers to exists in the file's headers,
+ * or in the columns an earlier step laid out
+ */
+export function validateRecipe(recipe: Recipe, fileHeaders: string[]): RecipeIssue[] {
+  const issues: RecipeIssue[] = [];
+  let headers = fileHeaders;
+
+  recipe.steps.forEach((step, stepIndex) => {
+    const messages: string[] = [];
+
+    switch (step.type) {
+      case 'normalizeHeaders':
+        if (step.enabled) headers = normalizeHeaders(headers, step.config);
+        break;
+      case 'removeEmptyRows':
+        if (step.config.mode === 'keyColumns') messages.push(...selectorIssues(step.config.keyColumns, headers));
+        break;
+      case 'removeDuplicates':
+        messages.push(...selectorIssues(step.config.keyColumns, headers));
+        if (step.config.survivorship === 'latest' && !headers.includes(step.config.dateColumn)) {
+          messages.push(`date column "${step.config.dateColumn}" does not exist`);
+        }
+        break;
+      case 'trimWhitespace':
+      case 'standardizeCase':
+        messages.push(...selectorIssues(step.config.columns, headers));
+        break;
+      case 'editCells':
+        messages.push(
+          ...[...new Set(step.config.edits.map(edit => edit.column))]
+            .filter(column => column >= headers.length)
+            .map(column => `column ${column + 1} does not exist`)
+        );
+        break;
+      case 'manageColumns': {
+        // Layouts apply to exactly the columns they were made for
+        const { from, columns } = step.config;
+        if (columns.length === 0) break;
+        if (headers.join('\u0000') !== from.join('\u0000')) {
+          messages.push(`the columns differ from the ones the layout was made for (${from.join(', ')})`);
+        } else if (step.enabled) {
+          headers = columns.map(column => column.name);
+        }
+        break;
+      }
+    }
+
+    issues.push(...messages.map(message => ({ stepIndex, message: `${stepLabel(step.type)}: ${message}` })));
+  });
+
+  return issues;
+}
+
+/**
+ * Turn the steps of a recipe back into a pipeline
+ */
+export function recipeToPipeline(recipe: Recipe): PipelineStep[] {
+  return recipe.steps.map(step => ({ ...createStep(step.type), enabled: step.enabled, config: step.config }) as PipelineStep);
+}
@@ -0,0 +1,212 @@
+/**
+ * Searching, per-column filtering and multi-column sorting of rows for
+ * display. Values are compared according to the column types, so numbers
+ * sort numerically and dates chronologically.
+ */
+
+import { ColumnSchema, ColumnType, parseDateValue } from './typeInference';
+
+export type ColumnFilter =
+  | { type: 'equals'; value: string }
+  | { type: 'contains'; value: string }
+  | { type: 'regex'; pattern: string }
+  | { type: 'range'; min: string; max: string }
+  | { type: 'isEmpty' }
+  | { type: 'inList'; values: string[] };
+
+export type FilterType = ColumnFilter['type'];
+
+export const FILTER_TYPES: { value: FilterType; label: string }[] = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'regex', label: 'Matches regex' },
+  { value: 'range', label: 'In range' },
+  { value: 'isEmpty', label: 'Is empty' },
+  { value: 'inList', label: 'In list' },
+];
+
+export interface SortKey {
+  column: number;
+  direction: 'asc' | 'desc';
+}
+
+export interface RowQuery {
+  /** Substring matched against every cell, ignoring case */
+  search: string;
+  /** Filters by column index; a row must pass all of them */
+  filters: Record<number, ColumnFilter>;
+  /** Sort keys in priority order */
+  sort: SortKey[];
+}
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency'];
+const DATE_TYPES: ColumnType[] = ['date', 'datetime'];
+
+const isBlank = (cell: string | undefined) => (cell ?? '').trim() === '';
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Comparable key of a cell for its column type; null when the cell is blank
+ * or cannot be read as the type, so such cells can be sorted last
+ */
+function sortKey(cell: string | undefined, column: ColumnSchema | undefined): number | string | null {
+  if (isBlank(cell)) return null;
+  const value = cell!.trim();
+  const type = column?.type ?? 'text';
+
+  if (NUMERIC_TYPES.includes(type)) {
+    // Drop currency codes, symbols and thousands separators; a single letter
+    // is kept as it may be an exponent
+    const number = parseFloat(value.replace(/\p{L}{2,}|[^\p{L}\d.+-]/gu, ''));
+    return isNaN(number) ? null : number;
+  }
+  if (DATE_TYPES.includes(type)) {
+    const date = column?.format ? parseDateValue(value, column.format) : new Date(value);
+    return date && !isNaN(date.getTime()) ? date.getTime() : null;
+  }
+  if (type === 'boolean') {
+    return /^(true|yes|y|t|1)$/i.test(value) ? 1 : 0;
+  }
+  return value;
+}
+
+function compareKeys(a: number | string | null, b: number | string | null): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * Test a single cell against a filter. Equality and ranges follow the column
+ * type, so "1,000" equals "1000" in a number column.
+ */
+function compileFilter(filter: ColumnFilter, column: ColumnSchema | undefined): (cell: string | undefined) => boolean {
+  switch (filter.type) {
+    case 'isEmpty':
+      return isBlank;
+    case 'contains': {
+      const term = filter.value.toLowerCase();
+      return cell => (cell ?? '').toLowerCase().includes(term);
+    }
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(filter.pattern);
+      } catch {
+        return () => false;
+      }
+      return cell => pattern.test(cell ?? '');
+    }
+    case 'equals': {
+      const expected = sortKey(filter.value, column);
+      return cell => {
+        const actual = sortKey(cell, column);
+        return actual === null || expected === null
+          ? isBlank(cell) && isBlank(filter.value)
+          : compareKeys(actual, expected) === 0;
+      };
+    }
+    case 'inList': {
+      const keys = filter.values.map(value => sortKey(value, column)).filter(key => key !== null);
+      return cell => {
+        const actual = sortKey(cell, column);
+        return actual !== null && keys.some(key => compareKeys(actual, key) === 0);
+      };
+    }
+    case 'range': {
+      const min = sortKey(filter.min, column);
+      const max = sortKey(filter.max, column);
+      return cell => {
+        const actual = sortKey(cell, column);
+        if (actual === null) return false;
+        return (min === null || compareKeys(actual, min) >= 0) && (max === null || compareKeys(actual, max) <= 0);
+      };
+    }
+  }
+}
+
+/**
+ * Check that a filter can be applied, returning a message when it cannot
+ */
+export function validateFilter(filter: ColumnFilter): string | null {
+  switch (filter.type) {
+    case 'regex':
+      try {
+        new RegExp(filter.pattern);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid regular expression';
+      }
+    case 'range':
+      return isBlank(filter.min) && isBlank(filter.max) ? 'Enter a minimum, a maximum or both' : null;
+    case 'inList':
+      return filter.values.length === 0 ? 'Enter at least one value' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Short description of a filter, e.g. "between 10 and 20"
+ */
+export function describeFilter(filter: ColumnFilter): string {
+  switch (filter.type) {
+    case 'equals':
+      return `= ${filter.value}`;
+    case 'contains':
+      return `contains "${filter.value}"`;
+    case 'regex':
+      return `matches /${filter.pattern}/`;
+    case 'range':
+      if (isBlank(filter.min)) return `≤ ${filter.max}`;
+      if (isBlank(filter.max)) return `≥ ${filter.min}`;
+      return `between ${filter.min} and ${filter.max}`;
+    case 'isEmpty':
+      return 'is empty';
+    case 'inList':
+      return `in ${filter.values.length} values`;
+  }
+}
+
+/**
+ * Indices of the rows matching the search and filters, in sorted order. Rows
+ * that compare equal keep their order; blank cells sort last either way.
+ */
+export function queryRows(data: string[][], schema: ColumnSchema[], query: RowQuery): number[] {
+  const term = query.search.toLowerCase();
+  const filters = Object.entries(query.filters).map(([column, filter]) => ({
+    column: Number(column),
+    test: compileFilter(filter, schema[Number(column)]),
+  }));
+
+  const indices: number[] = [];
+  data.forEach((row, index) => {
+    if (term && !row.some(cell => (cell ?? '').toLowerCase().includes(term))) return;
+    if (filters.every(({ column, test }) => test(row[column]))) indices.push(index);
+  });
+
+  if (query.sort.length === 0) return indices;
+
+  // Work out each sort key once rather than on every comparison
+  const keys = query.sort.map(({ column }) => {
+    const columnKeys: (number | string | null)[] = new Array(data.length);
+    indices.forEach(index => {
+      columnKeys[index] = sortKey(data[index][column], schema[column]);
+    });
+    return columnKeys;
+  });
+
+  return indices.sort((a, b) => {
+    for (let i = 0; i < query.sort.length; i++) {
+      const keyA = keys[i][a];
+      const keyB = keys[i][b];
+      if (keyA === null || keyB === null) {
+        if (keyA !== keyB) return keyA === null ? 1 : -1;
+        continue;
+      }
+      const order = compareKeys(keyA, keyB);
+      if (order !== 0) return query.sort[i].direction === 'asc' ? order : -order;
+    }
+    return a - b;
+  });
+}
@@ -0,0 +1,288 @@
+/**
+ * Column type inference: classifies each column from a sample of its values
+ * and reports how confident the classification is.
+ */
+
+export type ColumnType =
+  | 'integer'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'currency'
+  | 'categorical'
+  | 'text';
+
+export const COLUMN_TYPE_OPTIONS: { value: ColumnType; label: string }[] = [
+  { value: 'integer', label: 'Integer' },
+  { value: 'decimal', label: 'Decimal' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+  { value: 'datetime', label: 'Date & time' },
+  { value: 'email', label: 'Email' },
+  { value: 'url', label: 'URL' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'categorical', label: 'Categorical' },
+  { value: 'text', label: 'Free text' },
+];
+
+/**
+ * Types whose values are words rather than codes or numbers, and so may be
+ * case-normalized safely
+ */
+export const TEXTUAL_TYPES: ColumnType[] = ['text', 'categorical', 'email'];
+
+export interface ColumnSchema {
+  type: ColumnType;
+  /** Share of non-empty sampled values consistent with the type, 0 to 1 */
+  confidence: number;
+  /** Detected layout for date and datetime columns, e.g. "DD/MM/YYYY" */
+  format?: string;
+  emptyCount: number;
+  distinctCount: number;
+  /** True when the type was set by the user rather than inferred */
+  overridden?: boolean;
+}
+
+interface DateFormat {
+  format: string;
+  pattern: RegExp;
+  /** Capture group positions of year, month and day */
+  order: [number, number, number];
+}
+
+const TIME_PART = '(?:[ T](\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?)';
+
+const DATE_FORMATS: DateFormat[] = [
+  { format: 'YYYY-MM-DD', pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+  { format: 'YYYY/MM/DD', pattern: /^(\d{4})\/(\d{1,2})\/(\d{1,2})/, order: [1, 2, 3] },
+  { format: 'DD/MM/YYYY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 2, 1] },
+  { format: 'MM/DD/YYYY', pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 1, 2] },
+  { format: 'DD.MM.YYYY', pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, order: [3, 2, 1] },
+  { format: 'DD-MM-YYYY', pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 2, 1] },
+  { format: 'MM-DD-YYYY', pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 1, 2] },
+];
+
+// Whole-value patterns of each format, without and with a time part, compiled once
+const DATE_PATTERNS = new Map(
+  DATE_FORMATS.flatMap(({ format, pattern }): [string, RegExp][] => [
+    [format, new RegExp(`${pattern.source}$`)],
+    [`${format} HH:mm:ss`, new RegExp(`${pattern.source}${TIME_PART}$`)],
+  ])
+);
+
+const PATTERNS: Record<'boolean' | 'integer' | 'decimal' | 'currency' | 'email' | 'url' | 'phone', RegExp> = {
+  boolean: /^(true|false|yes|no|y|n|t|f)$/i,
+  integer: /^[+-]?(\d+|\d{1,3}(,\d{3})+)$/,
+  decimal: /^[+-]?((\d+|\d{1,3}(,\d{3})+)(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/,
+  currency: /^(-?[$€£¥]\s?-?\d[\d,]*(\.\d+)?|-?\d[\d,]*(\.\d+)?\s?[$€£¥]|(USD|EUR|GBP|JPY)\s?-?\d[\d,]*(\.\d+)?|-?\d[\d,]*(\.\d+)?\s?(USD|EUR|GBP|JPY))$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  url: /^(https?:\/\/|www\.)[^\s]+$/i,
+  phone: /^\+?[\d\s().-]{7,20}$/,
+};
+
+const SAMPLE_SIZE = 5000;
+const MIN_CONFIDENCE = 0.8;
+const MAX_CATEGORIES = 50;
+
+/**
+ * Parse a date or datetime in the given format (see ColumnSchema.format).
+ * Returns null when the value does not match or is not a real calendar date.
+ */
+export function parseDateValue(value: string, format: string): Date | null {
+  const [dateFormat, timeFormat] = format.split(' ');
+  const definition = DATE_FORMATS.find(candidate => candidate.format === dateFormat);
+  if (!definition) return null;
+
+  const pattern = DATE_PATTERNS.get(timeFormat ? `${dateFormat} HH:mm:ss` : dateFormat);
+  const match = value.trim().match(pattern);
+  if (!match) return null;
+
+  const [yearIndex, monthIndex, dayIndex] = definition.order;
+  const year = Number(match[yearIndex]);
+  const month = Number(match[monthIndex]);
+  const day = Number(match[dayIndex]);
+  const hours = Number(match[4] ?? 0);
+  const minutes = Number(match[5] ?? 0);
+  const seconds = Number(match[6] ?? 0);
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  const isValid =
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day &&
+    hours < 24 &&
+    minutes < 60 &&
+    seconds < 60;
+
+  return isValid ? date : null;
+}
+
+/**
+ * Find the date format matching the most values, with or without a time part
+ */
+function detectDateFormat(values: string[], withTime: boolean): { format: string, matches: number } {
+  let best = { format: '', matches: 0 };
+
+  for (const { format } of DATE_FORMATS) {
+    const fullFormat = withTime ? `${format} HH:mm:ss` : format;
+    const matches = values.filter(value => parseDateValue(value, fullFormat) !== null).length;
+    if (matches > best.matches) {
+      best = { format: fullFormat, matches };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick up to `size` evenly spaced items
+ */
+function sample<T>(items: T[], size: number): T[] {
+  if (items.length <= size) return items;
+  const step = items.length / size;
+  return Array.from({ length: size }, (_, index) => items[Math.floor(index * step)]);
+}
+
+/**
+ * Classify a column from its values. Structured types (numbers, booleans,
+ * dates, emails, ...) win when they match at least 80% of the non-empty
+ * values; otherwise the column is categorical when it has few distinct values
+ * and free text when it does not.
+ */
+export function inferColumnType(values: string[]): ColumnSchema {
+  const trimmed = values.map(value => (value ?? '').trim());
+  const nonEmpty = trimmed.filter(value => value !== '');
+  const emptyCount = trimmed.length - nonEmpty.length;
+  const distinctCount = new Set(nonEmpty).size;
+
+  if (nonEmpty.length === 0) {
+    return { type: 'text', confidence: 0, emptyCount, distinctCount };
+  }
+
+  const sampled = sample(nonEmpty, SAMPLE_SIZE);
+  const ratio = (matches: number) => matches / sampled.length;
+  const matching = (pattern: RegExp) => sampled.filter(value => pattern.test(value)).length;
+
+  const boolean = ratio(matching(PATTERNS.boolean));
+  const integer = ratio(matching(PATTERNS.integer));
+  const email = ratio(matching(PATTERNS.email));
+
+  // No value matching these is a date, so when they already match most
+  // values no date format can win and the slow date passes are skipped
+  const isDateless = Math.max(boolean, integer, email) >= MIN_CONFIDENCE;
+  const noDate = { format: '', matches: 0 };
+  const date = isDateless ? noDate : detectDateFormat(sampled, false);
+  const datetime = isDateless ? noDate : detectDateFormat(sampled, true);
+
+  // Candidates in priority order; earlier types win ties
+  const candidates: { type: ColumnType; confidence: number; format?: string }[] = [
+    { type: 'boolean', confidence: boolean },
+    { type: 'integer', confidence: integer },
+    { type: 'decimal', confidence: ratio(matching(PATTERNS.decimal)) },
+    { type: 'currency', confidence: ratio(matching(PATTERNS.currency)) },
+    { type: 'date', confidence: ratio(date.matches), format: date.format },
+    { type: 'datetime', confidence: ratio(datetime.matches), format: datetime.format },
+    { type: 'email', confidence: email },
+    { type: 'url', confidence: ratio(matching(PATTERNS.url)) },
+    { type: 'phone', confidence: ratio(matching(PATTERNS.phone)) },
+  ];
+
+  const best = candidates.reduce((winner, candidate) =>
+    candidate.confidence > winner.confidence ? candidate : winner
+  );
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  if (best.confidence >= MIN_CONFIDENCE) {
+    return { ...best, confidence: round(best.confidence), emptyCount, distinctCount };
+  }
+
+  const sampledDistinct = new Set(sampled).size;
+  if (sampledDistinct <= MAX_CATEGORIES && sampledDistinct <= sampled.length / 2) {
+    return {
+      type: 'categorical',
+      confidence: round(1 - sampledDistinct / sampled.length),
+      emptyCount,
+      distinctCount,
+    };
+  }
+
+  return { type: 'text', confidence: round(1 - best.confidence), emptyCount, distinctCount };
+}
+
+/**
+ * Infer the schema of every column
+ */
+export function inferSchema(data: string[][], headers: string[]): ColumnSchema[] {
+  return headers.map((_, columnIndex) => inferColumnType(data.map(row => row[columnIndex] ?? '')));
+}
+
+/**
+ * Replace inferred types with the ones the user chose, by header name
+ */
+export function applyTypeOverrides(
+  schema: ColumnSchema[],
+  headers: string[],
+  overrides: Record<string, ColumnType>
+): ColumnSchema[] {
+  return schema.map((column, index) =>
+    overrides[headers[index]] ? { ...column, type: overrides[headers[index]], overridden: true } : column
+  );
+}
+
+/**
+ * Format a date in the given format (see ColumnSchema.format), the inverse of
+ * parseDateValue
+ */
+export function formatDateValue(date: Date, format: string): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const parts: Record<string, string> = {
+    YYYY: pad(date.getFullYear(), 4),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token]);
+}
+
+const TYPE_EXPECTATIONS: Partial<Record<ColumnType, string>> = {
+  boolean: 'true/false or yes/no',
+  integer: 'a whole number',
+  decimal: 'a number',
+  currency: 'an amount such as $12.50',
+  email: 'an email address',
+  url: 'a URL starting with http:// or www.',
+  phone: 'a phone number',
+};
+
+/**
+ * Check a value against its column's type, returning a message when it does
+ * not fit. Blank values and free text always fit.
+ */
+export function validateValue(value: string, column: ColumnSchema): string | null {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  switch (column.type) {
+    case 'date':
+    case 'datetime':
+      if (column.format) {
+        return parseDateValue(trimmed, column.format) ? null : `Expected a date as ${column.format}`;
+      }
+      return isNaN(new Date(trimmed).getTime()) ? 'Expected a date' : null;
+    case 'categorical':
+    case 'text':
+      return null;
+    default: {
+      const pattern = PATTERNS[column.type as keyof typeof PATTERNS];
+      return pattern.test(trimmed) ? null : `Expected ${TYPE_EXPECTATIONS[column.type]}`;
+    }
+  }
+}
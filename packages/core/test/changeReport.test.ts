@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ReportedChange,
+  buildChangeReport,
+  createColumnsStep,
+  createStep,
+  describeRemoval,
+  inferSchema,
+  layoutFromHeaders,
+  parseCSV,
+  reportToHTML,
+  reportToJSON,
+  runPipeline,
+  serializeReport,
+  stepLabel,
+} from '../src';
+
+const headers = ['Name', 'City'];
+const data = [[' Anna', 'Oslo'], ['', ''], ['Bo ', 'Bergen'], ['Anna', 'Oslo']];
+
+// Trimming, then removing empty rows and duplicates, then moving the city first
+const changes: ReportedChange[] = runPipeline(
+  [
+    createStep('trimWhitespace'),
+    createStep('removeEmptyRows'),
+    createStep('removeDuplicates'),
+    createColumnsStep(headers, layoutFromHeaders(headers).reverse()),
+  ],
+  data,
+  { headers, schema: inferSchema(data, headers) }
+).map((result, index) => ({ label: `Step ${index + 1}`, result }));
+const report = buildChangeReport(data, headers, changes);
+
+describe('buildChangeReport', () => {
+  it('traces changed cells to the input rows', () => {
+    expect(report.cellChanges).toMatchObject([
+      { row: 0, column: 'Name', before: ' Anna', after: 'Anna' },
+      { row: 2, column: 'Name', before: 'Bo ', after: 'Bo' },
+    ]);
+  });
+
+  it('traces removed rows, and the rows they duplicate, to the input rows', () => {
+    expect(report.removedRows).toMatchObject([
+      { row: 1, reason: 'empty', cells: { Name: '', City: '' } },
+      { row: 3, reason: 'duplicate', duplicateOf: 0, cells: { Name: 'Anna', City: 'Oslo' } },
+    ]);
+    expect(report).toMatchObject({ rowsBefore: 4, rowsAfter: 2 });
+  });
+
+  it('counts moved columns as no changes', () => {
+    expect(report.cellChanges).toHaveLength(2);
+    expect(report.steps[3].summary).toBe('2 columns');
+  });
+});
+
+describe('describeRemoval', () => {
+  it('counts rows from 1', () => {
+    expect(describeRemoval({ reason: 'duplicate', duplicateOf: 0 })).toBe('Duplicate of row 1');
+    expect(describeRemoval({ reason: 'merged', duplicateOf: 4 })).toBe('Merged into row 5');
+    expect(describeRemoval({ reason: 'filtered', detail: 'key columns blank' })).toBe('Filtered: key columns blank');
+  });
+});
+
+describe('serializing the report', () => {
+  it('writes one CSV line per change', () => {
+    const { headers: columns, data: lines } = parseCSV(serializeReport(report, 'csv'));
+    expect(columns).toEqual(['change', 'row', 'column', 'step', 'reason', 'before', 'after']);
+    expect(lines).toEqual([
+      ['cell changed', '1', 'Name', 'Step 1', '', ' Anna', 'Anna'],
+      ['cell changed', '3', 'Name', 'Step 1', '', 'Bo ', 'Bo'],
+      ['row removed', '2', '', 'Step 2', 'Empty row', ' | ', ''],
+      ['row removed', '4', '', 'Step 3', 'Duplicate of row 1', 'Anna | Oslo', ''],
+    ]);
+  });
+
+  it('names steps and columns in JSON', () => {
+    const json = JSON.parse(reportToJSON(report));
+    expect(json.cellChanges[0]).toEqual({ row: 1, column: 'Name', step: 'Step 1', before: ' Anna', after: 'Anna' });
+    expect(json.removedRows[1]).toMatchObject({ step: 'Step 3', reason: 'Duplicate of row 1' });
+  });
+
+  it('escapes values in HTML', () => {
+    const step = createStep('trimWhitespace');
+    const [result] = runPipeline([step], [[' <b>']], { headers: ['x'], schema: inferSchema([[' <b>']], ['x']) });
+    const html = reportToHTML(buildChangeReport([[' <b>']], ['x'], [{ label: stepLabel(step.type), result }]));
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('&lt;b&gt;');
+  });
+});
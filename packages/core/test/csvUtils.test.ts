@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { CSVDialect, CSVParseError, DEFAULT_DIALECT, parseCSV, serializeCSV, sniffDialect, tokenizeCSV } from '../src';
+
+const roundTrip = (data: string[][], headers: string[], dialect: CSVDialect = DEFAULT_DIALECT) =>
+  parseCSV(serializeCSV(data, headers, dialect), dialect);
+
+describe('serializeCSV and parseCSV', () => {
+  it('round trips delimiters, quotes and line breaks inside fields', () => {
+    const data = [
+      ['a,b', 'say "hi"', 'line\nbreak'],
+      ['crlf\r\nbreak', '', ' padded '],
+    ];
+    const parsed = roundTrip(data, ['one', 'two', 'three']);
+    expect(parsed.headers).toEqual(['one', 'two', 'three']);
+    expect(parsed.data).toEqual(data);
+  });
+
+  it('round trips empty fields alone on their line', () => {
+    const parsed = roundTrip([[''], ['a'], ['  '], ['']], ['h']);
+    expect(parsed.data).toEqual([[''], ['a'], ['  '], ['']]);
+  });
+
+  it('round trips every dialect', () => {
+    const data = [["it's", 'x;y', 'tab\there'], ['1', '', '|^']];
+    for (const delimiter of [',', ';', '\t', '|', '^']) {
+      for (const lineEnding of ['\n', '\r\n', '\r'] as const) {
+        const dialect: CSVDialect = { delimiter, quoteChar: "'", lineEnding, hasBOM: true };
+        expect(roundTrip(data, ['a', 'b', 'c'], dialect).data).toEqual(data);
+      }
+    }
+  });
+
+  it('writes a byte order mark only when the dialect has one', () => {
+    expect(serializeCSV([], ['a'], { ...DEFAULT_DIALECT, hasBOM: true })).toBe('﻿a');
+    expect(serializeCSV([], ['a'])).toBe('a');
+  });
+
+  it('drops blank and whitespace-only lines but keeps quoted empty fields', () => {
+    expect(parseCSV('a,b\n\n1,2\n   \n"",""\n').data).toEqual([['1', '2'], ['', '']]);
+    expect(parseCSV('h\n""\nx\n\n').data).toEqual([[''], ['x']]);
+  });
+
+  it('counts ragged rows', () => {
+    const { ragged } = parseCSV('a,b,c\n1,2\n1,2,3\n1,2,3,4\n');
+    expect(ragged).toEqual({ short: 1, long: 1, rows: [0, 2] });
+  });
+});
+
+describe('tokenizeCSV', () => {
+  it('reports an unterminated quoted field with its position', () => {
+    expect(() => tokenizeCSV('a,b\n1,"open\n')).toThrow(CSVParseError);
+    try {
+      tokenizeCSV('a,b\n1,"open\n');
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 3 });
+    }
+  });
+
+  it('keeps stray quotes inside unquoted fields', () => {
+    expect(tokenizeCSV('5" disk,x')).toEqual([['5" disk', 'x']]);
+  });
+});
+
+describe('sniffDialect', () => {
+  it('detects the delimiter', () => {
+    expect(sniffDialect('a;b;c\n1;2;3\n4;5;6\n').delimiter).toBe(';');
+    expect(sniffDialect('a\tb\n1\t2\n').delimiter).toBe('\t');
+    expect(sniffDialect('a|b|c\n1|2|3\n').delimiter).toBe('|');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    const sample = 'name;note\n"Smith, J";"a, b, c"\n"Doe, K";"d, e"\n';
+    expect(sniffDialect(sample).delimiter).toBe(';');
+  });
+
+  it('detects single quotes, line endings and byte order marks', () => {
+    const dialect = sniffDialect("﻿a,b\r\n'x,y',z\r\n'p,q',r\r\n");
+    expect(dialect).toEqual({ delimiter: ',', quoteChar: "'", lineEnding: '\r\n', hasBOM: true });
+  });
+
+  it('falls back to commas for a single column', () => {
+    expect(sniffDialect('name\nalpha\nbeta\n').delimiter).toBe(',');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSample, detectEncoding, encodeText } from '../src';
+
+const detect = (text: string, encoding: string) => detectEncoding(encodeText(text, encoding)).encoding;
+
+describe('detectEncoding', () => {
+  it('follows a byte order mark', () => {
+    const detection = detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]));
+    expect(detection).toMatchObject({ encoding: 'utf-8', hasBOM: true });
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00])).encoding).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61])).encoding).toBe('utf-16be');
+  });
+
+  it('recognises UTF-16 without a byte order mark', () => {
+    expect(detect('name,city\nAnna,Oslo\n', 'utf-16le')).toBe('utf-16le');
+    expect(detect('name,city\nAnna,Oslo\n', 'utf-16be')).toBe('utf-16be');
+  });
+
+  it('prefers UTF-8 for ASCII and valid UTF-8', () => {
+    expect(detect('name,city\nAnna,Oslo\n', 'utf-8')).toBe('utf-8');
+    expect(detect('name,city\nJosé,São Paulo\nŁukasz,Łódź\n', 'utf-8')).toBe('utf-8');
+  });
+
+  it('detects Western European text as Windows-1252', () => {
+    expect(detect('name,price\ncafé,£12\nNaïve «crème»,¥5\nGröße,m³\n', 'windows-1252')).toBe('windows-1252');
+  });
+
+  it('detects Central European text as ISO-8859-2', () => {
+    expect(detect('city,region\nŁódź,łódzkie\nKraków,małopolskie\nGdańsk,pomorskie\n', 'iso-8859-2')).toBe(
+      'iso-8859-2'
+    );
+    expect(detect('mesto,kraj\nPlzeň,Plzeňský\nŽatec,Ústecký\nŠumperk,Olomoucký\n', 'iso-8859-2')).toBe(
+      'iso-8859-2'
+    );
+  });
+
+  it('detects ISO-8859-15 when Windows-1252 would give symbols in words', () => {
+    expect(detect('name,price\nŒuvre,€5\nšíp,Žofie\n', 'iso-8859-15')).toBe('iso-8859-15');
+  });
+
+  it('ranks every supported encoding', () => {
+    const { candidates } = detectEncoding(encodeText('a,b\n1,2\n', 'utf-8'));
+    expect(candidates).toHaveLength(7);
+    expect(candidates.every(({ confidence }) => confidence >= 0 && confidence <= 1)).toBe(true);
+  });
+});
+
+describe('encodeText', () => {
+  it('round trips the legacy encodings', () => {
+    const samples: [string, string][] = [
+      ['windows-1252', 'café £5 «quoted»'],
+      ['iso-8859-2', 'Łódź żółć'],
+      ['iso-8859-15', 'Œuvre €5'],
+      ['shift_jis', '東京タワー'],
+    ];
+    for (const [encoding, text] of samples) {
+      expect(decodeSample(encodeText(text, encoding), encoding)).toBe(text);
+    }
+  });
+
+  it('replaces characters the encoding cannot represent', () => {
+    expect(decodeSample(encodeText('Łódź', 'windows-1252'), 'windows-1252')).toBe('?ód?');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyClusterDecisions,
+  findClusters,
+  jaroWinkler,
+  levenshteinDistance,
+  levenshteinSimilarity,
+  metaphone,
+  ngramFingerprint,
+  normalizeValue,
+  soundex,
+  tokenSetRatio,
+} from '../src';
+
+describe('similarity measures', () => {
+  it('count edits with Levenshtein distance', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinSimilarity('abcd', 'abce')).toBe(0.75);
+    expect(levenshteinSimilarity('', '')).toBe(1);
+  });
+
+  it('favour a common prefix with Jaro-Winkler', () => {
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('abc', 'xyz')).toBe(0);
+    expect(jaroWinkler('same', 'same')).toBe(1);
+  });
+
+  it('ignore word order and punctuation with the token set ratio', () => {
+    expect(tokenSetRatio('Acme Widgets', 'Widgets, Acme')).toBe(1);
+    expect(tokenSetRatio('Acme Widgets', 'Widgets, Acme Ltd')).toBe(1);
+    expect(tokenSetRatio('Acme', 'Globex')).toBeLessThan(0.6);
+  });
+});
+
+describe('keys', () => {
+  it('normalize case, accents and punctuation', () => {
+    expect(normalizeValue('  Café-Olé!  ')).toBe('cafe ole');
+  });
+
+  it('give similar sounding names the same Soundex code', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Tymczak')).toBe('T522');
+    expect(soundex('John Smith')).toBe('J500 S530');
+  });
+
+  it('give similar sounding names the same Metaphone key', () => {
+    expect(metaphone('Stephen Knight')).toBe('STFN NT');
+    expect(metaphone('Steven')).toBe(metaphone('Stephen'));
+  });
+
+  it('ignore spacing and punctuation in n-gram fingerprints', () => {
+    expect(ngramFingerprint('Jon Smith')).toBe(ngramFingerprint('JonSmith.'));
+    expect(ngramFingerprint('Jon Smith')).not.toBe(ngramFingerprint('Jane Smith'));
+    expect(ngramFingerprint('ab')).toBe('ab');
+  });
+});
+
+describe('findClusters', () => {
+  const data = [['Acme Inc'], ['ACME INC.'], ['Acme Inc'], ['Globex'], [''], ['Acme Incorporated']];
+
+  it('groups similar values, most frequent first', () => {
+    const clusters = findClusters(data, 0, { algorithm: 'levenshtein', threshold: 0.8, blocking: 'prefix' });
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].values).toEqual([
+      { value: 'Acme Inc', rows: [0, 2] },
+      { value: 'ACME INC.', rows: [1] },
+    ]);
+  });
+
+  it('groups values with equal keys', () => {
+    const clusters = findClusters([['Smith'], ['Smyth'], ['Jones']], 0, {
+      algorithm: 'soundex',
+      threshold: 0,
+      blocking: 'none',
+    });
+    expect(clusters.map(({ values }) => values.map(({ value }) => value))).toEqual([['Smith', 'Smyth']]);
+  });
+
+  it('only compares values within the same block', () => {
+    const options = { algorithm: 'levenshtein' as const, threshold: 0.8, blocking: 'prefix' as const };
+    expect(findClusters([['xacme'], ['acme']], 0, options)).toEqual([]);
+    expect(findClusters([['xacme'], ['acme']], 0, { ...options, blocking: 'none' })).toHaveLength(1);
+  });
+});
+
+describe('applyClusterDecisions', () => {
+  const data = [['Acme', ''], ['ACME', 'Oslo'], ['Globex', 'Bergen'], ['acme', 'Trondheim']];
+  const clusters = findClusters(data, 0, { algorithm: 'ngramFingerprint', threshold: 0, blocking: 'none' });
+  const [{ id }] = clusters;
+
+  it('rewrites every value to the canonical one', () => {
+    const result = applyClusterDecisions(data, 0, clusters, { [id]: { action: 'canonical', canonical: 'Acme' } });
+    expect(result.data.map(([name]) => name)).toEqual(['Acme', 'Acme', 'Globex', 'Acme']);
+    expect(result).toMatchObject({ rowsMerged: 0, cellsUpdated: 2, kept: [0, 1, 2, 3] });
+  });
+
+  it('merges rows into the first, filling its empty cells', () => {
+    const result = applyClusterDecisions(data, 0, clusters, { [id]: { action: 'merge', canonical: 'Acme AS' } });
+    expect(result.data).toEqual([['Acme AS', 'Oslo'], ['Globex', 'Bergen']]);
+    expect(result).toMatchObject({ rowsMerged: 2, kept: [0, 2] });
+    expect(result.merged).toEqual([
+      { index: 1, into: 0 },
+      { index: 3, into: 0 },
+    ]);
+  });
+
+  it('leaves rejected clusters alone', () => {
+    const result = applyClusterDecisions(data, 0, clusters, { [id]: { action: 'reject', canonical: 'Acme' } });
+    expect(result.data).toEqual(data);
+  });
+});
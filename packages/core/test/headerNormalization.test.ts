@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HEADER_OPTIONS, HeaderOptions, convertHeaderCase, headerChanges, normalizeHeaders } from '../src';
+
+const normalize = (headers: string[], options: Partial<HeaderOptions> = {}) =>
+  normalizeHeaders(headers, { ...DEFAULT_HEADER_OPTIONS, ...options });
+
+describe('convertHeaderCase', () => {
+  it('splits words at separators and camelCase boundaries', () => {
+    expect(convertHeaderCase('orderID total-Amount', 'snake')).toBe('order_id_total_amount');
+    expect(convertHeaderCase('Order ID', 'camel')).toBe('orderId');
+    expect(convertHeaderCase('first_name', 'title')).toBe('First Name');
+    expect(convertHeaderCase(' Order  ID ', 'keep')).toBe(' Order  ID ');
+  });
+});
+
+describe('normalizeHeaders', () => {
+  it('removes byte order marks and invisible characters and collapses whitespace', () => {
+    expect(normalize(['\uFEFFid', 'ï»¿name', 'first\u200B  name '])).toEqual(['id', 'name', 'first name']);
+  });
+
+  it('strips special characters when asked', () => {
+    expect(normalize(['Price ($)', 'Größe #'], { stripSpecial: true })).toEqual(['Price', 'Größe']);
+  });
+
+  it('names blank headers after their position, in the chosen case', () => {
+    expect(normalize(['a', '', ' '])).toEqual(['a', 'Column 2', 'Column 3']);
+    expect(normalize(['a', ''], { caseStyle: 'snake' })).toEqual(['a', 'column_2']);
+    expect(normalize(['a', ''], { nameBlanks: false })).toEqual(['a', '']);
+  });
+
+  it('numbers repeated names with a separator matching the case', () => {
+    expect(normalize(['Total', 'total'], { caseStyle: 'title' })).toEqual(['Total', 'Total 2']);
+    expect(normalize(['Total', 'total'], { caseStyle: 'camel' })).toEqual(['total', 'total2']);
+    expect(normalize(['a', 'a', 'a_2'])).toEqual(['a', 'a_3', 'a_2']);
+    expect(normalize(['a', 'a'], { deduplicate: false })).toEqual(['a', 'a']);
+  });
+});
+
+describe('headerChanges', () => {
+  it('lists the renamed columns', () => {
+    expect(headerChanges(['a', 'b'], ['a', 'B'])).toEqual([{ column: 1, from: 'b', to: 'B' }]);
+  });
+});
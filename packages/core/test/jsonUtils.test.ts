@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { flattenRecords, parseJSONRecords } from '../src';
+
+describe('parseJSONRecords', () => {
+  it('reads an array of records or a single record', () => {
+    expect(parseJSONRecords('[{"a":1},{"a":2}]', 'json')).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(parseJSONRecords('\uFEFF{"a":1}', 'json')).toEqual([{ a: 1 }]);
+  });
+
+  it('reads one record per line, skipping blank lines', () => {
+    expect(parseJSONRecords('{"a":1}\r\n\n{"a":2}\n', 'ndjson')).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('reports the line of invalid NDJSON', () => {
+    expect(() => parseJSONRecords('{"a":1}\n{"a":\n', 'ndjson')).toThrow(/^Invalid JSON on line 2/);
+  });
+});
+
+describe('flattenRecords', () => {
+  const records = [
+    { id: 1, address: { city: 'Oslo', zip: null }, tags: ['a', 'b'] },
+    { id: 2, extra: true, address: {}, tags: [] },
+  ];
+
+  it('names nested values by their path and takes the union of the keys', () => {
+    expect(flattenRecords(records)).toEqual({
+      headers: ['id', 'address.city', 'address.zip', 'tags', 'extra', 'address'],
+      data: [
+        ['1', 'Oslo', '', '["a","b"]', '', ''],
+        ['2', '', '', '[]', 'true', ''],
+      ],
+    });
+  });
+
+  it('emits a row per array element when exploding arrays', () => {
+    const { headers, data } = flattenRecords(records, 'explode');
+    expect(headers).toEqual(['id', 'address.city', 'address.zip', 'tags', 'extra', 'address']);
+    expect(data.map(row => [row[0], row[3]])).toEqual([
+      ['1', 'a'],
+      ['1', 'b'],
+      ['2', ''],
+    ]);
+  });
+
+  it('puts values that are not objects in a "value" column', () => {
+    expect(flattenRecords([1, 'x', null])).toEqual({ headers: ['value'], data: [['1'], ['x'], ['']] });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CellEdit,
+  PipelineContext,
+  PipelineStep,
+  addCellEdit,
+  buildChangeReport,
+  contextAfter,
+  createColumnsStep,
+  createEditStep,
+  createRecipe,
+  createStep,
+  defaultPipeline,
+  inferSchema,
+  layoutFromHeaders,
+  normalizeHeaders,
+  DEFAULT_HEADER_OPTIONS,
+  parseRecipe,
+  recipeToPipeline,
+  removeCellEdit,
+  runPipeline,
+  validateRecipe,
+} from '../src';
+
+const contextOf = (data: string[][], headers: string[]): PipelineContext => ({
+  headers,
+  schema: inferSchema(data, headers),
+});
+
+/** Run the pipeline on its own output, as "Apply Cleaning" does */
+function runTimes(steps: PipelineStep[], data: string[][], headers: string[], times: number) {
+  let state = { data, context: contextOf(data, headers) };
+  const runs: (typeof state)[] = [];
+  for (let run = 0; run < times; run++) {
+    const results = runPipeline(steps, state.data, state.context);
+    state = {
+      data: results.length > 0 ? results[results.length - 1].data : state.data,
+      context: contextAfter(results, state.context),
+    };
+    runs.push(state);
+  }
+  return runs;
+}
+
+const snakeCaseStep = (): PipelineStep => {
+  const step = createStep('normalizeHeaders');
+  if (step.type === 'normalizeHeaders') step.config.caseStyle = 'snake';
+  return step;
+};
+
+describe('running the pipeline again', () => {
+  it('leaves cleaned data unchanged', () => {
+    const data = [['  Anna ', 'Oslo'], ['Anna', 'Oslo'], ['', ''], ['Bo', 'Bergen ']];
+    const [first, second] = runTimes(defaultPipeline(), data, ['Name', 'City'], 2);
+    expect(first.data).toEqual([['Anna', 'Oslo'], ['Bo', 'Bergen']]);
+    expect(second).toEqual(first);
+  });
+
+  it('keeps renamed columns when later steps rename them again', () => {
+    const headers = ['Name', 'Amount'];
+    const data = [['a', '1'], ['b', '2']];
+    const layout = layoutFromHeaders(headers);
+    layout[1].name = 'Total';
+    const steps = [createColumnsStep(headers, layout), snakeCaseStep()];
+
+    const [first, second, third] = runTimes(steps, data, headers, 3);
+    expect(first.context.headers).toEqual(['name', 'total']);
+    expect(first.data).toEqual(data);
+    expect(second).toEqual(first);
+    expect(third).toEqual(first);
+  });
+
+  it('keeps hidden columns when the layout has already been applied', () => {
+    const headers = ['id', 'secret'];
+    const layout = layoutFromHeaders(headers, ['secret']);
+    const [first, second] = runTimes([createColumnsStep(headers, layout)], [['1', 'x']], headers, 2);
+    expect(first.context.hiddenColumns).toEqual(['secret']);
+    expect(second.context.hiddenColumns).toEqual(['secret']);
+  });
+
+  it('applies layouts whose names match the headers they were made for', () => {
+    const headers = ['A', 'B'];
+    const swapped = [
+      { source: 1, name: 'A' },
+      { source: 0, name: 'B' },
+    ];
+    const [first, second] = runTimes([createColumnsStep(headers, swapped)], [['1', '2']], headers, 2);
+    expect(first.data).toEqual([['2', '1']]);
+    expect(second.data).toEqual([['2', '1']]);
+
+    const replaced = [
+      { source: 0, name: 'A' },
+      { source: null, name: 'B', value: 'new' },
+    ];
+    const [{ data: inserted }] = runTimes([createColumnsStep(headers, replaced)], [['1', '2']], headers, 1);
+    expect(inserted).toEqual([['1', 'new']]);
+  });
+
+  it('applies a moved column only once', () => {
+    const headers = ['a', 'b', 'c'];
+    const layout = layoutFromHeaders(headers);
+    const steps = [createColumnsStep(headers, [layout[2], layout[0], layout[1]])];
+    const [first, second] = runTimes(steps, [['1', '2', '3']], headers, 2);
+    expect(first.context.headers).toEqual(['c', 'a', 'b']);
+    expect(first.data).toEqual([['3', '1', '2']]);
+    expect(second).toEqual(first);
+  });
+});
+
+describe('duplicate headers', () => {
+  const headers = ['Amount', 'Amount'];
+  const data = [['1', '2'], ['3', '4']];
+
+  it('lay out the second of two columns with the same name', () => {
+    const layout = layoutFromHeaders(headers);
+    layout[1].name = 'Amount (EUR)';
+    const [{ data: laidOut, context }] = runTimes(
+      [createColumnsStep(headers, [layout[1], layout[0]])],
+      data,
+      headers,
+      1
+    );
+    expect(context.headers).toEqual(['Amount (EUR)', 'Amount']);
+    expect(laidOut).toEqual([['2', '1'], ['4', '3']]);
+  });
+
+  it('edit the column at the edited position', () => {
+    const edit: CellEdit = { row: 0, column: 1, previous: '2', value: '20' };
+    const [{ data: edited }] = runTimes([createEditStep([edit])], data, headers, 1);
+    expect(edited).toEqual([['1', '20'], ['3', '4']]);
+  });
+
+  it('get numbered by the header cleanup', () => {
+    expect(normalizeHeaders(['Amount', 'amount', '', 'Amount'], DEFAULT_HEADER_OPTIONS)).toEqual([
+      'Amount',
+      'amount_2',
+      'Column 3',
+      'Amount_3',
+    ]);
+  });
+
+  it('survive a recipe round trip', () => {
+    const layout = layoutFromHeaders(headers);
+    layout[1].name = 'Second';
+    const recipe = parseRecipe(JSON.stringify(createRecipe('dupes', [createColumnsStep(headers, layout)])));
+    expect(validateRecipe(recipe, headers)).toEqual([]);
+
+    const [{ context }] = runTimes(recipeToPipeline(recipe), data, headers, 1);
+    expect(context.headers).toEqual(['Amount', 'Second']);
+  });
+});
+
+describe('manual edits', () => {
+  const first: CellEdit = { row: 0, column: 1, previous: 'x', value: 'y' };
+  const second: CellEdit = { row: 0, column: 1, previous: 'y', value: 'z' };
+
+  it('merge edits of the same cell and drop edits back to the original value', () => {
+    const merged = addCellEdit(addCellEdit([], first), second);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].config).toEqual({ edits: [{ row: 0, column: 1, previous: 'x', value: 'z' }] });
+
+    const reverted = addCellEdit(addCellEdit([], first), { ...first, previous: 'y', value: 'x' });
+    expect(reverted[0].config).toEqual({ edits: [] });
+  });
+
+  it('come back out of the pipeline in reverse order', () => {
+    const steps = addCellEdit(addCellEdit([], first), second);
+    const undone = removeCellEdit(steps, second);
+    expect(undone[0].config).toEqual({ edits: [first] });
+    expect(removeCellEdit(undone, first)).toEqual([]);
+  });
+
+  it('go right after the steps run on the data they were made on', () => {
+    const steps = defaultPipeline();
+    const edit: CellEdit = { row: 0, column: 0, previous: 'x', value: 'y' };
+    expect(addCellEdit(steps, edit, [steps[0].id, steps[1].id])[2].config).toEqual({ edits: [edit] });
+
+    const edited = addCellEdit(steps, edit, []);
+    const merged = addCellEdit(edited, second, [edited[0].id]);
+    expect(merged).toHaveLength(steps.length + 1);
+    expect(merged[0].config).toEqual({ edits: [edit, second] });
+  });
+
+  it('edit the same row when a recipe is replayed', () => {
+    const headers = ['Name', 'Note'];
+    const data = [['a', ''], ['', ''], ['b', ''], ['c', '']];
+    const edit: CellEdit = { row: 2, column: 1, previous: '', value: 'X' };
+    const recipe = parseRecipe(JSON.stringify(createRecipe('edit', addCellEdit(defaultPipeline(), edit, []))));
+
+    const [first, second] = runTimes(recipeToPipeline(recipe), data, headers, 2);
+    expect(first.data).toEqual([['a', ''], ['b', 'X'], ['c', '']]);
+    expect(second).toEqual(first);
+  });
+
+  it('show up in the change report', () => {
+    const data = [['a', 'x']];
+    const headers = ['Name', 'Note'];
+    const results = runPipeline([createEditStep([first])], data, contextOf(data, headers));
+    const report = buildChangeReport(data, headers, [{ label: 'Manual edit', result: results[0] }]);
+    expect(report.cellChanges).toMatchObject([{ row: 0, column: 'Note', before: 'x', after: 'y' }]);
+    expect(report.steps[0].summary).toBe('1 cells changed');
+  });
+
+  it('restore an edit dropped by editing the cell back', () => {
+    const back: CellEdit = { ...first, previous: 'y', value: 'x' };
+    const steps = addCellEdit(addCellEdit([], first), back);
+    expect(removeCellEdit(steps, back)[0].config).toEqual({ edits: [first] });
+  });
+});
+
+describe('validateRecipe', () => {
+  it('reports layouts made for other columns', () => {
+    const layout = layoutFromHeaders(['a', 'b']);
+    const recipe = createRecipe('layout', [createColumnsStep(['a', 'b'], layout.reverse())]);
+    expect(validateRecipe(recipe, ['a', 'b'])).toEqual([]);
+    expect(validateRecipe(recipe, ['b', 'a', 'c'])).toHaveLength(1);
+  });
+
+  it('renames the columns of a layout whose names match its input', () => {
+    const swapped = [
+      { source: 1, name: 'a' },
+      { source: 0, name: 'b' },
+    ];
+    const recipe = createRecipe('swap', [createColumnsStep(['a', 'b'], swapped), createStep('trimWhitespace')]);
+    expect(validateRecipe(recipe, ['a', 'b'])).toEqual([]);
+    expect(validateRecipe(recipe, ['b', 'a'])).toHaveLength(1);
+  });
+
+  it('checks edited columns by position', () => {
+    const recipe = createRecipe('edits', [createEditStep([{ row: 0, column: 2, previous: '', value: 'x' }])]);
+    expect(validateRecipe(recipe, ['a', 'b', 'c'])).toEqual([]);
+    expect(validateRecipe(recipe, ['a', 'b'])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RAGGED_ROW_OPTIONS, RaggedRowOptions, describeRaggedRows, repairRaggedRows, summarizeRaggedRows } from '../src';
+
+const repair = (data: string[][], options: Partial<RaggedRowOptions> = {}) =>
+  repairRaggedRows(data, 3, { ...DEFAULT_RAGGED_ROW_OPTIONS, ...options });
+
+describe('summarizeRaggedRows', () => {
+  it('counts short and long rows', () => {
+    expect(summarizeRaggedRows([['a'], ['a', 'b', 'c'], ['a', 'b', 'c', 'd']], 3)).toEqual({
+      short: 1,
+      long: 1,
+      rows: [0, 2],
+    });
+  });
+
+  it('describes the summary', () => {
+    expect(describeRaggedRows({ short: 1, long: 2 })).toBe('1 row with missing cells, 2 rows with extra cells');
+    expect(describeRaggedRows({ short: 0, long: 0 })).toBe('No ragged rows');
+  });
+});
+
+describe('repairRaggedRows', () => {
+  it('pads short rows and merges extra cells into the last column', () => {
+    const result = repair([['a'], ['a', 'b', 'c', 'd', 'e']]);
+    expect(result.data).toEqual([['a', '', ''], ['a', 'b', 'c,d,e']]);
+    expect(result).toMatchObject({ kept: [0, 1], cellsChanged: 3 });
+  });
+
+  it('drops extra cells when truncating', () => {
+    expect(repair([['a', 'b', 'c', 'd']], { longRows: 'truncate' }).data).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('joins a row broken by a line break inside a field', () => {
+    const result = repair([['1', 'first'], ['line', 'x'], ['2', 'b', 'c']], { shortRows: 'joinNext' });
+    expect(result.data).toEqual([['1', 'first\nline', 'x'], ['2', 'b', 'c']]);
+    expect(result).toMatchObject({ kept: [0, 2], joined: [{ index: 1, into: 0 }] });
+  });
+
+  it('quarantines ragged rows when asked', () => {
+    const result = repair([['a'], ['a', 'b', 'c'], ['a', 'b', 'c', 'd']], {
+      shortRows: 'quarantine',
+      longRows: 'quarantine',
+    });
+    expect(result.data).toEqual([['a', 'b', 'c']]);
+    expect(result.quarantined).toEqual([
+      { index: 0, cells: 1 },
+      { index: 2, cells: 4 },
+    ]);
+  });
+});
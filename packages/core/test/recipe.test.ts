@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { RecipeError, createRecipe, defaultPipeline, parseRecipe, serializeRecipe } from '../src';
+
+const recipeWith = (...steps: unknown[]) => JSON.stringify({ version: 1, name: 'test', steps });
+
+describe('parseRecipe', () => {
+  it('round trips a saved recipe', () => {
+    const recipe = createRecipe('default', defaultPipeline(), { Amount: 'decimal' });
+    expect(parseRecipe(serializeRecipe(recipe))).toEqual(recipe);
+  });
+
+  it('fills in settings missing from a step', () => {
+    const [step] = parseRecipe(recipeWith({ type: 'removeDuplicates', config: { caseSensitive: true } })).steps;
+    expect(step).toMatchObject({ enabled: true, config: { caseSensitive: true, keyColumns: { mode: 'all' } } });
+  });
+
+  it('rejects malformed column selectors', () => {
+    const selectors = [
+      { mode: 'columns' },
+      { mode: 'columns', columns: 'email' },
+      { mode: 'types', types: ['money'] },
+      { mode: 'pattern' },
+      { mode: 'some' },
+      'email',
+    ];
+    for (const columns of selectors) {
+      expect(() => parseRecipe(recipeWith({ type: 'trimWhitespace', config: { columns } }))).toThrow(RecipeError);
+    }
+    expect(() => parseRecipe(recipeWith({ type: 'removeDuplicates', config: { keyColumns: 'email' } }))).toThrow(
+      'Step 1 has invalid "keyColumns"'
+    );
+  });
+
+  it('rejects unknown options', () => {
+    const steps = [
+      { type: 'removeEmptyRows', config: { mode: 'some' } },
+      { type: 'removeEmptyRows', config: { mode: 'threshold', percent: '50' } },
+      { type: 'removeDuplicates', config: { survivorship: 'newest' } },
+      { type: 'removeDuplicates', config: { whitespace: 'strip' } },
+      { type: 'removeDuplicates', config: { caseSensitive: 'no' } },
+      { type: 'normalizeHeaders', config: { caseStyle: 'kebab' } },
+      { type: 'repairRaggedRows', config: { longRows: 'drop' } },
+      { type: 'repairRaggedRows', config: { separator: 1 } },
+    ];
+    for (const step of steps) {
+      expect(() => parseRecipe(recipeWith(step))).toThrow(RecipeError);
+    }
+  });
+
+  it('rejects malformed edits and layouts', () => {
+    expect(() =>
+      parseRecipe(recipeWith({ type: 'editCells', config: { edits: [{ row: 0, column: -1, previous: '', value: 'x' }] } }))
+    ).toThrow('Step 1 has invalid "edits"');
+    expect(() =>
+      parseRecipe(recipeWith({ type: 'manageColumns', config: { from: ['a'], columns: [{ source: 1, name: 'b' }] } }))
+    ).toThrow(RecipeError);
+  });
+
+  it('rejects recipes from newer versions', () => {
+    expect(() => parseRecipe(JSON.stringify({ version: 2, steps: [] }))).toThrow(RecipeError);
+  });
+});
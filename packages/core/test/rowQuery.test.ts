@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnSchema, RowQuery, queryRows } from '../src';
+
+const currency: ColumnSchema[] = [{ type: 'currency', confidence: 1, emptyCount: 0, distinctCount: 5 }];
+const data = [['EUR 1,200'], ['EUR 300'], ['€ 50'], [''], ['USD -7']];
+const query = (changes: Partial<RowQuery>): RowQuery => ({ search: '', filters: {}, sort: [], ...changes });
+
+describe('queryRows', () => {
+  it('sorts amounts with currency codes numerically, blanks last', () => {
+    expect(queryRows(data, currency, query({ sort: [{ column: 0, direction: 'asc' }] }))).toEqual([4, 2, 1, 0, 3]);
+  });
+
+  it('filters amounts with currency codes by range and value', () => {
+    expect(queryRows(data, currency, query({ filters: { 0: { type: 'range', min: '100', max: '1500' } } }))).toEqual([
+      0, 1,
+    ]);
+    expect(queryRows(data, currency, query({ filters: { 0: { type: 'equals', value: '1200' } } }))).toEqual([0]);
+    expect(queryRows(data, currency, query({ filters: { 0: { type: 'inList', values: ['50', '-7'] } } }))).toEqual([
+      2, 4,
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { applyTypeOverrides, formatDateValue, inferColumnType, inferSchema, parseDateValue, validateValue } from '../src';
+
+describe('inferColumnType', () => {
+  it('recognises numbers, booleans and emails', () => {
+    expect(inferColumnType(['1', '-20', '1,000']).type).toBe('integer');
+    expect(inferColumnType(['1.5', '2', '.25']).type).toBe('decimal');
+    expect(inferColumnType(['yes', 'no', 'Y']).type).toBe('boolean');
+    expect(inferColumnType(['a@example.com', 'b@example.org']).type).toBe('email');
+    expect(inferColumnType(['$12.50', '€3', '40 EUR']).type).toBe('currency');
+  });
+
+  it('tells day-first from month-first dates', () => {
+    expect(inferColumnType(['31/01/2024', '15/02/2024'])).toMatchObject({ type: 'date', format: 'DD/MM/YYYY' });
+    expect(inferColumnType(['01/31/2024', '02/15/2024'])).toMatchObject({ type: 'date', format: 'MM/DD/YYYY' });
+    expect(inferColumnType(['2024-01-31 08:30', '2024-02-15T17:05:09Z'])).toMatchObject({
+      type: 'datetime',
+      format: 'YYYY-MM-DD HH:mm:ss',
+    });
+  });
+
+  it('accepts a few stray values and counts blanks', () => {
+    const values = ['1', '2', '3', '4', 'n/a', '', ' '];
+    expect(inferColumnType(values)).toMatchObject({ type: 'integer', confidence: 0.8, emptyCount: 2, distinctCount: 5 });
+  });
+
+  it('falls back to categorical or free text', () => {
+    expect(inferColumnType(['red', 'blue', 'red', 'blue', 'red', 'green']).type).toBe('categorical');
+    expect(inferColumnType(['the quick fox', 'a lazy dog', 'jumps over']).type).toBe('text');
+    expect(inferColumnType(['', ''])).toMatchObject({ type: 'text', confidence: 0, emptyCount: 2 });
+  });
+});
+
+describe('inferSchema', () => {
+  it('infers every column, treating missing cells as blank', () => {
+    const schema = inferSchema([['1', 'x@y.io'], ['2']], ['id', 'email']);
+    expect(schema.map(({ type }) => type)).toEqual(['integer', 'email']);
+    expect(schema[1].emptyCount).toBe(1);
+  });
+
+});
+
+describe('dates', () => {
+  it('parse only real calendar dates and times', () => {
+    expect(parseDateValue('29/02/2024', 'DD/MM/YYYY')).toEqual(new Date(2024, 1, 29));
+    expect(parseDateValue('29/02/2023', 'DD/MM/YYYY')).toBeNull();
+    expect(parseDateValue('2024-01-31 24:00', 'YYYY-MM-DD HH:mm:ss')).toBeNull();
+    expect(parseDateValue('2024-01-31', 'YYYY-MM-DD HH:mm:ss')).toBeNull();
+    expect(parseDateValue('2024-01-31', 'unknown')).toBeNull();
+  });
+
+  it('format back to the detected format', () => {
+    const date = parseDateValue('05.03.2024 07:08:09', 'DD.MM.YYYY HH:mm:ss');
+    expect(formatDateValue(date!, 'DD.MM.YYYY HH:mm:ss')).toBe('05.03.2024 07:08:09');
+  });
+});
+
+describe('validateValue', () => {
+  it('checks values against their column type', () => {
+    const column = { confidence: 1, emptyCount: 0, distinctCount: 1 };
+    expect(validateValue('12', { ...column, type: 'integer' })).toBeNull();
+    expect(validateValue('12a', { ...column, type: 'integer' })).toBe('Expected a whole number');
+    expect(validateValue('31/02/2024', { ...column, type: 'date', format: 'DD/MM/YYYY' })).toBe(
+      'Expected a date as DD/MM/YYYY'
+    );
+    expect(validateValue(' ', { ...column, type: 'email' })).toBeNull();
+    expect(validateValue('anything', { ...column, type: 'text' })).toBeNull();
+  });
+});
+
+describe('applyTypeOverrides', () => {
+  it('replaces inferred types by header', () => {
+    const schema = inferSchema([['1', '2']], ['zip', 'count']);
+    expect(applyTypeOverrides(schema, ['zip', 'count'], { zip: 'text' })).toMatchObject([
+      { type: 'text', overridden: true },
+      { type: 'integer' },
+    ]);
+  });
+});
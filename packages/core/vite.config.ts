@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+
+// Library build: ES module and CommonJS bundles; declarations come from tsc
+export default defineConfig({
+  build: {
+    lib: {
+      entry: "src/index.ts",
+      formats: ["es", "cjs"],
+      fileName: (format) => (format === "es" ? "index.js" : "index.cjs"),
+    },
+    target: "es2020",
+    sourcemap: true,
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+  },
+});
@@ -0,0 +1,117 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarIcon } from "lucide-react";
+import { ColumnSchema, formatDateValue, parseDateValue, validateValue } from "@data-refine/core";
+
+interface CellEditorProps {
+  value: string;
+  column?: ColumnSchema;
+  /** Values offered for categorical columns */
+  options: string[];
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}
+
+// Select items cannot have an empty value
+const BLANK_OPTION = "__blank__";
+
+export function CellEditor({ value, column, options, onCommit, onCancel }: CellEditorProps) {
+  const [draft, setDraft] = useState(value);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const error = column ? validateValue(draft, column) : null;
+  const isDate = column?.type === "date" || column?.type === "datetime";
+  const dateFormat = column?.format ?? "YYYY-MM-DD";
+
+  const commit = () => {
+    if (!error) onCommit(draft);
+  };
+
+  if (column?.type === "categorical") {
+    return (
+      <Select
+        defaultOpen
+        value={value === "" ? BLANK_OPTION : value}
+        onValueChange={(selected) => onCommit(selected === BLANK_OPTION ? "" : selected)}
+        onOpenChange={(open) => !open && onCancel()}
+      >
+        <SelectTrigger className="h-7 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BLANK_OPTION}>
+            <span className="text-muted-foreground">(blank)</span>
+          </SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  const current = isDate ? parseDateValue(draft, dateFormat) ?? undefined : undefined;
+
+  return (
+    <div ref={containerRef} className="relative flex items-center gap-1 w-full">
+      <Input
+        autoFocus
+        className={`h-7 text-sm px-2 ${error ? "border-destructive focus-visible:ring-destructive" : ""}`}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") onCancel();
+        }}
+        onBlur={(e) => {
+          // Leaving for the date picker is not the end of the edit
+          if (isCalendarOpen || containerRef.current?.contains(e.relatedTarget as Node)) return;
+          if (error) onCancel();
+          else commit();
+        }}
+      />
+      {isDate && (
+        <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0 shrink-0" title="Pick a date">
+              <CalendarIcon className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={current}
+              defaultMonth={current}
+              onSelect={(date) => {
+                if (!date) return;
+                // Keep the time of day of datetime values
+                if (current) date.setHours(current.getHours(), current.getMinutes(), current.getSeconds());
+                setIsCalendarOpen(false);
+                onCommit(formatDateValue(date, dateFormat));
+              }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+      {error && (
+        <p className="absolute left-0 top-full mt-1 z-30 rounded-md border bg-popover px-2 py-1 text-xs text-destructive shadow-md whitespace-nowrap">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronDownIcon, DownloadIcon } from "lucide-react";
+import {
+  CellChange,
+  ChangeReport,
+  REPORT_FORMATS,
+  ReportFormat,
+  describeRemoval,
+  serializeReport,
+} from "@data-refine/core";
+import { downloadBlob } from "@/utils/downloadUtils";
+
+interface ChangeReportDialogProps {
+  report: ChangeReport | null;
+  onClose: () => void;
+}
+
+const MAX_ROWS = 200;
+
+export function ChangeReportDialog({ report, onClose }: ChangeReportDialogProps) {
+  // Changed rows in input order, with the net change of each cell across steps
+  const changedRows = useMemo(() => {
+    const rows = new Map<number, Map<string, CellChange[]>>();
+    report?.cellChanges.forEach((change) => {
+      const cells = rows.get(change.row) ?? new Map<string, CellChange[]>();
+      cells.set(change.column, [...(cells.get(change.column) ?? []), change]);
+      rows.set(change.row, cells);
+    });
+    return [...rows.entries()].sort(([a], [b]) => a - b);
+  }, [report]);
+
+  const stepLabel = (stepId: string) => report?.steps.find(({ id }) => id === stepId)?.label ?? "";
+
+  const download = (format: ReportFormat) => {
+    const { extension, mimeType } = REPORT_FORMATS.find(({ value }) => value === format)!;
+    downloadBlob(new Blob([serializeReport(report!, format)], { type: mimeType }), `cleaning-report${extension}`);
+  };
+
+  return (
+    <Dialog open={report !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        {report && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Changes since upload</DialogTitle>
+              <DialogDescription>
+                {report.steps.length} operations • {report.rowsBefore} rows when loaded, {report.rowsAfter} now •{" "}
+                {report.cellChanges.length} cells changed in {changedRows.length} rows
+              </DialogDescription>
+            </DialogHeader>
+
+            <Tabs defaultValue="cells">
+              <div className="flex items-center justify-between">
+                <TabsList>
+                  <TabsTrigger value="cells">Changed cells ({report.cellChanges.length})</TabsTrigger>
+                  <TabsTrigger value="rows">Removed rows ({report.removedRows.length})</TabsTrigger>
+                </TabsList>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <DownloadIcon className="h-4 w-4 mr-2" />
+                      Audit Report
+                      <ChevronDownIcon className="h-4 w-4 ml-2" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {REPORT_FORMATS.map((format) => (
+                      <DropdownMenuItem key={format.value} onSelect={() => download(format.value)}>
+                        <span className="flex-1 mr-4">{format.label}</span>
+                        <span className="text-xs text-muted-foreground">{format.extension}</span>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+
+              <TabsContent value="cells">
+                <ScrollArea className="h-[450px] border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="sticky top-0 bg-background">Row</TableHead>
+                        {report.headers.map((header, index) => (
+                          <TableHead key={index} className="sticky top-0 bg-background">
+                            {header}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changedRows.slice(0, MAX_ROWS).map(([row, cells]) => (
+                        <TableRow key={row}>
+                          <TableCell className="font-medium text-muted-foreground">{row + 1}</TableCell>
+                          {report.headers.map((header) => {
+                            const changes = cells.get(header);
+                            if (!changes) return <TableCell key={header} />;
+                            return (
+                              <TableCell
+                                key={header}
+                                className="bg-amber-50 dark:bg-amber-950"
+                                title={changes.map((change) => stepLabel(change.stepId)).join(", ")}
+                              >
+                                <span className="line-through text-red-600">{changes[0].before || "(blank)"}</span>
+                                {" → "}
+                                <span className="text-green-700">{changes[changes.length - 1].after || "(blank)"}</span>
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                {changedRows.length > MAX_ROWS && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Showing the first {MAX_ROWS} of {changedRows.length} changed rows; the audit report lists all of them
+                  </p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="rows">
+                <ScrollArea className="h-[450px] border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="sticky top-0 bg-background">Row</TableHead>
+                        <TableHead className="sticky top-0 bg-background">Reason</TableHead>
+                        {report.headers.map((header, index) => (
+                          <TableHead key={index} className="sticky top-0 bg-background">
+                            {header}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.removedRows.slice(0, MAX_ROWS).map((removed) => (
+                        <TableRow key={removed.row}>
+                          <TableCell className="font-medium text-muted-foreground">{removed.row + 1}</TableCell>
+                          <TableCell className="whitespace-nowrap" title={stepLabel(removed.stepId)}>
+                            {describeRemoval(removed)}
+                          </TableCell>
+                          {report.headers.map((header) => (
+                            <TableCell key={header} className="text-muted-foreground line-through">
+                              {removed.cells[header]}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                {report.removedRows.length > MAX_ROWS && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Showing the first {MAX_ROWS} of {report.removedRows.length} removed rows; the audit report lists
+                    all of them
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
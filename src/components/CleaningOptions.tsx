@@ -1,87 +1,149 @@
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
-import { Label } from "@/components/ui/label";
-import { CheckIcon, BarChart2Icon, FilterIcon, AlignLeftIcon } from "lucide-react";
-import { useToast } from "@/components/ui/use-toast";
 import {
-  removeDuplicates,
-  trimWhitespace,
-  standardizeCase,
-  removeEmptyRows,
-} from "@/utils/csvUtils";
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PlusIcon } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
 import { Separator } from "@/components/ui/separator";
+import { DataTable } from "@/components/DataTable";
+import { PipelineStepCard } from "@/components/PipelineStepCard";
+import { RecipeManager } from "@/components/RecipeManager";
+import {
+  CellEdit,
+  ColumnSchema,
+  ColumnType,
+  PipelineContext,
+  PipelineStep,
+  STEP_TYPES,
+  StepResult,
+  contextAfter,
+  createStep,
+  describeStepResult,
+  moveStep,
+  runPipeline,
+  runStep,
+  stepLabel,
+} from "@data-refine/core";
 
 interface CleaningOptionsProps {
   data: string[][];
   headers: string[];
-  onDataCleaned: (cleanedData: string[][]) => void;
+  schema: ColumnSchema[];
+  hiddenColumns: string[];
+  /** Layout and edit steps the data already has */
+  appliedSteps: string[];
+  steps: PipelineStep[];
+  onStepsChange: (steps: PipelineStep[]) => void;
+  /** Called when an edit is removed from a "Manual edits" step, which also puts its cell back */
+  onRemoveEdit: (stepId: string, edit: CellEdit) => void;
+  /** Called with every step that ran, in order, after "Apply Cleaning" */
+  onStepsApplied: (applied: { step: PipelineStep; result: StepResult }[]) => void;
+  /** Column types set by the user, saved with recipes */
+  typeOverrides: Record<string, ColumnType>;
+  onTypeOverridesChange: (typeOverrides: Record<string, ColumnType>) => void;
 }
 
-export function CleaningOptions({ data, headers, onDataCleaned }: CleaningOptionsProps) {
-  const [options, setOptions] = useState({
-    removeDuplicates: true,
-    trimWhitespace: true,
-    standardizeCase: false,
-    removeEmptyRows: true,
-  });
+export function CleaningOptions({
+  data,
+  headers,
+  schema,
+  hiddenColumns,
+  appliedSteps,
+  steps,
+  onStepsChange,
+  onRemoveEdit,
+  onStepsApplied,
+  typeOverrides,
+  onTypeOverridesChange,
+}: CleaningOptionsProps) {
+  // Results of the last run; cleared whenever the pipeline changes
+  const [results, setResults] = useState<StepResult[] | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ step: PipelineStep; results: StepResult[] } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [stats, setStats] = useState<{
-    duplicatesRemoved: number;
-    whitespaceFixed: number;
-    emptyRowsRemoved: number;
-  } | null>(null);
-  
+
   const { toast } = useToast();
 
-  const toggleOption = (option: keyof typeof options) => {
-    setOptions({ ...options, [option]: !options[option] });
+  const context = useMemo<PipelineContext>(
+    () => ({ headers, schema, hiddenColumns, appliedSteps }),
+    [headers, schema, hiddenColumns, appliedSteps]
+  );
+
+  const updateSteps = (nextSteps: PipelineStep[]) => {
+    onStepsChange(nextSteps);
+    setResults(null);
+  };
+
+  const updateStep = (index: number, step: PipelineStep) => {
+    updateSteps(steps.map((current, currentIndex) => (currentIndex === index ? step : current)));
+  };
+
+  // Columns each step sees, after the steps before it renamed or moved them;
+  // running a step without rows is cheap and still gives its columns
+  const stepContexts = useMemo(() => {
+    let current = context;
+    return steps.map((step) => {
+      const stepContext = current;
+      if (step.enabled) current = runStep(step, [], current).context ?? current;
+      return stepContext;
+    });
+  }, [steps, context]);
+
+  // Empty-row and ragged-row steps preview the rows they would change, so they need their input
+  const stepInputs = useMemo(
+    () =>
+      steps.map((step, index) => {
+        const needsInput = step.type === "removeEmptyRows" || step.type === "repairRaggedRows";
+        if (!needsInput || !step.enabled || index === 0) return data;
+        const previous = runPipeline(steps.slice(0, index), data, context);
+        return previous.length > 0 ? previous[previous.length - 1].data : data;
+      }),
+    [steps, data, context]
+  );
+
+  const previewResult = preview?.results[preview.results.length - 1];
+  const previewContext = preview ? contextAfter(preview.results, context) : context;
+
+  const showPreview = (step: PipelineStep) => {
+    const stepResults = runPipeline(steps, data, context, step.id);
+    setPreview({ step, results: stepResults });
+  };
+
+  const handleDragOver = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    updateSteps(moveStep(steps, dragIndex, index));
+    setDragIndex(index);
   };
 
   const cleanData = () => {
     if (!data || data.length === 0) return;
-    
+
     setIsProcessing(true);
-    let cleanedData = [...data];
-    let statsCopy = {
-      duplicatesRemoved: 0,
-      whitespaceFixed: 0,
-      emptyRowsRemoved: 0,
-    };
 
     setTimeout(() => {
       try {
-        // Process the data based on selected options
-        if (options.removeEmptyRows) {
-          const { data: noEmptyRows, count } = removeEmptyRows(cleanedData);
-          cleanedData = noEmptyRows;
-          statsCopy.emptyRowsRemoved = count;
-        }
-
-        if (options.removeDuplicates) {
-          const { data: noDuplicates, count } = removeDuplicates(cleanedData);
-          cleanedData = noDuplicates;
-          statsCopy.duplicatesRemoved = count;
-        }
-
-        if (options.trimWhitespace) {
-          const { data: trimmed, count } = trimWhitespace(cleanedData);
-          cleanedData = trimmed;
-          statsCopy.whitespaceFixed = count;
-        }
-
-        if (options.standardizeCase) {
-          cleanedData = standardizeCase(cleanedData, headers);
-        }
-
-        setStats(statsCopy);
-        onDataCleaned(cleanedData);
+        const stepResults = runPipeline(steps, data, context);
+        const cleanedData = stepResults.length > 0 ? stepResults[stepResults.length - 1].data : data;
+
+        setResults(stepResults);
+        onStepsApplied(stepResults.map((result) => ({ step: steps.find(({ id }) => id === result.stepId)!, result })));
 
         toast({
           title: "Data cleaning complete",
-          description: `${statsCopy.duplicatesRemoved} duplicates and ${statsCopy.emptyRowsRemoved} empty rows removed`,
+          description: `${stepResults.length} steps applied, ${data.length - cleanedData.length} rows removed`,
         });
       } catch (error) {
         toast({
@@ -98,54 +160,55 @@ export function CleaningOptions({ data, headers, onDataCleaned }: CleaningOption
   return (
     <Card>
       <CardContent className="pt-6 space-y-6">
+        <RecipeManager
+          steps={steps}
+          headers={headers}
+          typeOverrides={typeOverrides}
+          onLoad={(loadedSteps, loadedOverrides) => {
+            updateSteps(loadedSteps);
+            if (loadedOverrides) onTypeOverridesChange(loadedOverrides);
+          }}
+        />
+
         <div className="space-y-3">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <FilterIcon className="h-4 w-4 text-primary" />
-              <Label htmlFor="remove-duplicates">Remove duplicate rows</Label>
-            </div>
-            <Switch
-              id="remove-duplicates"
-              checked={options.removeDuplicates}
-              onCheckedChange={() => toggleOption("removeDuplicates")}
-            />
-          </div>
-          
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <AlignLeftIcon className="h-4 w-4 text-primary" />
-              <Label htmlFor="trim-whitespace">Trim whitespace</Label>
-            </div>
-            <Switch
-              id="trim-whitespace"
-              checked={options.trimWhitespace}
-              onCheckedChange={() => toggleOption("trimWhitespace")}
+          {steps.map((step, index) => (
+            <PipelineStepCard
+              key={step.id}
+              step={step}
+              onChange={(nextStep) => updateStep(index, nextStep)}
+              onRemove={() => updateSteps(steps.filter((_, stepIndex) => stepIndex !== index))}
+              onRemoveEdit={(edit) => {
+                onRemoveEdit(step.id, edit);
+                setResults(null);
+              }}
+              onPreview={() => showPreview(step)}
+              headers={stepContexts[index].headers}
+              schema={stepContexts[index].schema}
+              inputData={stepInputs[index]}
+              result={results?.find((result) => result.stepId === step.id)}
+              isDragging={dragIndex === index}
+              onDragStart={() => setDragIndex(index)}
+              onDragEnd={() => setDragIndex(null)}
+              onDragOver={() => handleDragOver(index)}
             />
-          </div>
-          
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <CheckIcon className="h-4 w-4 text-primary" />
-              <Label htmlFor="standardize-case">Standardize text case</Label>
-            </div>
-            <Switch
-              id="standardize-case"
-              checked={options.standardizeCase}
-              onCheckedChange={() => toggleOption("standardizeCase")}
-            />
-          </div>
-          
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <BarChart2Icon className="h-4 w-4 text-primary" />
-              <Label htmlFor="remove-empty">Remove empty rows</Label>
-            </div>
-            <Switch
-              id="remove-empty"
-              checked={options.removeEmptyRows}
-              onCheckedChange={() => toggleOption("removeEmptyRows")}
-            />
-          </div>
+          ))}
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="w-full">
+                <PlusIcon className="h-4 w-4 mr-2" />
+                Add Step
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-56">
+              {/* Manual edits and column layouts are made above the data table */}
+              {STEP_TYPES.filter((type) => type.value !== "editCells" && type.value !== "manageColumns").map((type) => (
+                <DropdownMenuItem key={type.value} onSelect={() => updateSteps([...steps, createStep(type.value)])}>
+                  {type.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
 
         <Button
@@ -162,28 +225,50 @@ export function CleaningOptions({ data, headers, onDataCleaned }: CleaningOption
           )}
         </Button>
 
-        {stats && (
+        {results && (
           <>
             <Separator />
             <div className="space-y-2">
               <h4 className="text-sm font-medium">Cleaning Results</h4>
               <ul className="text-sm space-y-1">
-                <li className="flex justify-between">
-                  <span>Duplicates removed:</span>
-                  <span className="font-mono">{stats.duplicatesRemoved}</span>
-                </li>
-                <li className="flex justify-between">
-                  <span>Whitespace fixed:</span>
-                  <span className="font-mono">{stats.whitespaceFixed}</span>
-                </li>
-                <li className="flex justify-between">
-                  <span>Empty rows removed:</span>
-                  <span className="font-mono">{stats.emptyRowsRemoved}</span>
-                </li>
+                {results.map((result) => {
+                  const step = steps.find(({ id }) => id === result.stepId);
+                  return (
+                    <li key={result.stepId} className="flex justify-between">
+                      <span>{step && stepLabel(step.type)}:</span>
+                      <span className="font-mono">{describeStepResult(result)}</span>
+                    </li>
+                  );
+                })}
               </ul>
             </div>
           </>
         )}
+
+
+        <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+          <DialogContent className="max-w-5xl">
+            {preview && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>After "{stepLabel(preview.step.type)}"</DialogTitle>
+                  <DialogDescription>
+                    {previewResult
+                      ? `${previewResult.rowsBefore} rows before the step, ${previewResult.rowsAfter} after` +
+                        (previewResult.cellsChanged > 0 ? `, ${previewResult.cellsChanged} cells changed` : "")
+                      : "No steps run up to here; showing the input data"}
+                  </DialogDescription>
+                </DialogHeader>
+                <DataTable
+                  data={previewResult ? previewResult.data : data}
+                  headers={previewContext.headers}
+                  schema={previewContext.schema}
+                  hiddenColumns={previewContext.hiddenColumns}
+                />
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { FilterIcon } from "lucide-react";
+import {
+  ColumnFilter,
+  ColumnSchema,
+  FILTER_TYPES,
+  FilterType,
+  describeFilter,
+  validateFilter,
+} from "@data-refine/core";
+
+interface ColumnFilterPopoverProps {
+  header: string;
+  column?: ColumnSchema;
+  filter?: ColumnFilter;
+  onChange: (filter: ColumnFilter | undefined) => void;
+}
+
+interface FilterDraft {
+  type: FilterType;
+  value: string;
+  min: string;
+  max: string;
+  /** One value per line for "in list" */
+  list: string;
+}
+
+const toDraft = (filter?: ColumnFilter): FilterDraft => ({
+  type: filter?.type ?? "contains",
+  value:
+    filter?.type === "equals" || filter?.type === "contains"
+      ? filter.value
+      : filter?.type === "regex"
+        ? filter.pattern
+        : "",
+  min: filter?.type === "range" ? filter.min : "",
+  max: filter?.type === "range" ? filter.max : "",
+  list: filter?.type === "inList" ? filter.values.join("\n") : "",
+});
+
+function fromDraft(draft: FilterDraft): ColumnFilter {
+  switch (draft.type) {
+    case "equals":
+    case "contains":
+      return { type: draft.type, value: draft.value };
+    case "regex":
+      return { type: "regex", pattern: draft.value };
+    case "range":
+      return { type: "range", min: draft.min, max: draft.max };
+    case "isEmpty":
+      return { type: "isEmpty" };
+    case "inList":
+      return {
+        type: "inList",
+        values: draft.list
+          .split("\n")
+          .map((value) => value.trim())
+          .filter((value) => value !== ""),
+      };
+  }
+}
+
+export function ColumnFilterPopover({ header, column, filter, onChange }: ColumnFilterPopoverProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterDraft>(() => toDraft(filter));
+
+  const error = validateFilter(fromDraft(draft));
+  const isDateColumn = column?.type === "date" || column?.type === "datetime";
+  const rangeHint = isDateColumn && column?.format ? `As ${column.format}` : undefined;
+
+  const apply = () => {
+    onChange(fromDraft(draft));
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (open) setDraft(toDraft(filter));
+        setIsOpen(open);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 shrink-0 ${filter ? "text-primary" : "text-muted-foreground"}`}
+          title={filter ? `Filter: ${describeFilter(filter)}` : `Filter ${header}`}
+        >
+          <FilterIcon className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-3">
+        <Label className="text-xs text-muted-foreground">Filter "{header}"</Label>
+        <Select value={draft.type} onValueChange={(type: FilterType) => setDraft({ ...draft, type })}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FILTER_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {(draft.type === "equals" || draft.type === "contains" || draft.type === "regex") && (
+          <Input
+            className="h-8"
+            value={draft.value}
+            placeholder={draft.type === "regex" ? "^[A-Z]{2}\\d+$" : "Value"}
+            onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+            onKeyDown={(e) => e.key === "Enter" && !error && apply()}
+            autoFocus
+          />
+        )}
+
+        {draft.type === "range" && (
+          <div className="flex items-center gap-2">
+            <Input
+              className="h-8"
+              value={draft.min}
+              placeholder={rangeHint ?? "Min"}
+              onChange={(e) => setDraft({ ...draft, min: e.target.value })}
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              className="h-8"
+              value={draft.max}
+              placeholder={rangeHint ?? "Max"}
+              onChange={(e) => setDraft({ ...draft, max: e.target.value })}
+            />
+          </div>
+        )}
+
+        {draft.type === "inList" && (
+          <Textarea
+            rows={4}
+            value={draft.list}
+            placeholder="One value per line"
+            onChange={(e) => setDraft({ ...draft, list: e.target.value })}
+          />
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          {filter && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onChange(undefined);
+                setIsOpen(false);
+              }}
+            >
+              Clear
+            </Button>
+          )}
+          <Button size="sm" onClick={apply} disabled={error !== null}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CopyIcon, EyeIcon, EyeOffIcon, GripVerticalIcon, PlusIcon, Trash2Icon } from "lucide-react";
+import { ColumnSpec, layoutFromHeaders, validateColumnLayout } from "@data-refine/core";
+
+interface ColumnManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  headers: string[];
+  hiddenColumns: string[];
+  /** Called with the new layout when it differs from the current columns */
+  onApply: (columns: ColumnSpec[]) => void;
+}
+
+interface DraftColumn {
+  /** Stable key for rendering and dragging, since names can change */
+  key: number;
+  spec: ColumnSpec;
+}
+
+export function ColumnManager({ open, onOpenChange, headers, hiddenColumns, onApply }: ColumnManagerProps) {
+  const [columns, setColumns] = useState<DraftColumn[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newValue, setNewValue] = useState("");
+  const nextKey = useRef(0);
+
+  const toDraft = (spec: ColumnSpec): DraftColumn => ({ key: nextKey.current++, spec });
+
+  useEffect(() => {
+    if (!open) return;
+    setColumns(layoutFromHeaders(headers, hiddenColumns).map(toDraft));
+    setNewName("");
+    setNewValue("");
+  }, [open, headers, hiddenColumns]);
+
+  const layout = columns.map(({ spec }) => ({ ...spec, name: spec.name.trim() }));
+  const issues = validateColumnLayout(layout);
+  const isUnchanged = JSON.stringify(layout) === JSON.stringify(layoutFromHeaders(headers, hiddenColumns));
+
+  const update = (index: number, changes: Partial<ColumnSpec>) => {
+    setColumns(columns.map((column, i) => (i === index ? { ...column, spec: { ...column.spec, ...changes } } : column)));
+  };
+
+  const duplicate = (index: number) => {
+    const { spec } = columns[index];
+    const copy = toDraft({ ...spec, name: `${spec.name} copy` });
+    setColumns([...columns.slice(0, index + 1), copy, ...columns.slice(index + 1)]);
+  };
+
+  const insert = () => {
+    setColumns([...columns, toDraft({ source: null, name: newName.trim(), value: newValue || undefined })]);
+    setNewName("");
+    setNewValue("");
+  };
+
+  const handleDragOver = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    const next = [...columns];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(index, 0, moved);
+    setColumns(next);
+    setDragIndex(index);
+  };
+
+  const apply = () => {
+    if (!isUnchanged) onApply(layout);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Manage columns</DialogTitle>
+          <DialogDescription>
+            Drag to reorder, rename, hide, duplicate or delete columns. The changes are added to the pipeline so
+            recipes replay them; hidden columns stay in the table but are left out of exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-80 rounded-md border">
+          <ul className="p-2 space-y-1">
+            {columns.map(({ key, spec }, index) => (
+              <li
+                key={key}
+                className={`flex items-center gap-2 rounded-md p-1 bg-background ${dragIndex === index ? "opacity-50" : ""}`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  handleDragOver(index);
+                }}
+              >
+                <span
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDragIndex(index);
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
+                  className="cursor-grab text-muted-foreground"
+                  title="Drag to reorder"
+                >
+                  <GripVerticalIcon className="h-4 w-4" />
+                </span>
+                <Input
+                  className={`h-8 flex-1 ${spec.hidden ? "text-muted-foreground" : ""}`}
+                  value={spec.name}
+                  onChange={(e) => update(index, { name: e.target.value })}
+                  aria-label={`Name of column ${index + 1}`}
+                />
+                {spec.source === null ? (
+                  <Input
+                    className="h-8 w-32"
+                    value={spec.value ?? ""}
+                    placeholder="Blank"
+                    onChange={(e) => update(index, { value: e.target.value || undefined })}
+                    aria-label={`Value of column ${index + 1}`}
+                  />
+                ) : (
+                  <span className="w-32 truncate text-xs text-muted-foreground" title={headers[spec.source]}>
+                    {headers[spec.source] !== spec.name.trim() && `from ${headers[spec.source]}`}
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title={spec.hidden ? "Include in exports" : "Leave out of exports"}
+                  onClick={() => update(index, { hidden: spec.hidden ? undefined : true })}
+                >
+                  {spec.hidden ? <EyeOffIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Duplicate column"
+                  onClick={() => duplicate(index)}
+                >
+                  <CopyIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Delete column"
+                  onClick={() => setColumns(columns.filter((_, i) => i !== index))}
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        <div className="space-y-2">
+          <Label htmlFor="new-column-name">Insert a column</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="new-column-name"
+              className="h-8 flex-1"
+              value={newName}
+              placeholder="Name"
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Input
+              className="h-8 w-40"
+              value={newValue}
+              placeholder="Value (optional)"
+              onChange={(e) => setNewValue(e.target.value)}
+              aria-label="Value of the new column"
+            />
+            <Button variant="outline" size="sm" onClick={insert} disabled={newName.trim() === ""}>
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Insert
+            </Button>
+          </div>
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="text-sm text-destructive space-y-1">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={apply} disabled={issues.length > 0}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  COLUMN_TYPE_OPTIONS,
+  ColumnSchema,
+  ColumnSelector,
+  ColumnType,
+  compileHeaderPattern,
+  resolveColumns,
+} from "@data-refine/core";
+
+interface ColumnSelectorControlProps {
+  id: string;
+  selector: ColumnSelector;
+  onChange: (selector: ColumnSelector) => void;
+  headers: string[];
+  schema: ColumnSchema[];
+}
+
+const MODE_OPTIONS: { value: ColumnSelector["mode"]; label: string }[] = [
+  { value: "all", label: "All columns" },
+  { value: "columns", label: "Specific columns" },
+  { value: "types", label: "Columns of type" },
+  { value: "pattern", label: "Header matches pattern" },
+];
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+export function ColumnSelectorControl({ id, selector, onChange, headers, schema }: ColumnSelectorControlProps) {
+  const selected = resolveColumns(selector, headers, schema.map((column) => column.type));
+  const patternError = selector.mode === "pattern" && compileHeaderPattern(selector.pattern) === null;
+
+  const changeMode = (mode: ColumnSelector["mode"]) => {
+    switch (mode) {
+      case "all":
+        return onChange({ mode });
+      case "columns":
+        return onChange({ mode, columns: selected.map((index) => headers[index]) });
+      case "types":
+        return onChange({ mode, types: [] });
+      case "pattern":
+        return onChange({ mode, pattern: "" });
+    }
+  };
+
+  return (
+    <div className="space-y-2 pl-6">
+      <div className="flex items-center space-x-2">
+        <Select value={selector.mode} onValueChange={(mode) => changeMode(mode as ColumnSelector["mode"])}>
+          <SelectTrigger id={id} className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {(selector.mode === "columns" || selector.mode === "types") && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 text-xs shrink-0">
+                Choose…
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56 p-0" align="end">
+              <div className="max-h-64 overflow-y-auto p-3 space-y-2">
+                {selector.mode === "columns" &&
+                  headers.map((header, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${id}-column-${index}`}
+                        checked={selector.columns.includes(header)}
+                        onCheckedChange={() => onChange({ ...selector, columns: toggle(selector.columns, header) })}
+                      />
+                      <Label htmlFor={`${id}-column-${index}`} className="font-normal truncate">
+                        {header}
+                      </Label>
+                    </div>
+                  ))}
+                {selector.mode === "types" &&
+                  COLUMN_TYPE_OPTIONS.map((option) => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${id}-type-${option.value}`}
+                        checked={selector.types.includes(option.value)}
+                        onCheckedChange={() =>
+                          onChange({ ...selector, types: toggle<ColumnType>(selector.types, option.value) })
+                        }
+                      />
+                      <Label htmlFor={`${id}-type-${option.value}`} className="font-normal">
+                        {option.label}
+                      </Label>
+                    </div>
+                  ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+
+      {selector.mode === "pattern" && (
+        <Input
+          className="h-8 text-xs font-mono"
+          placeholder="e.g. ^(email|name)$"
+          value={selector.pattern}
+          onChange={(e) => onChange({ ...selector, pattern: e.target.value })}
+        />
+      )}
+
+      <p className={`text-xs ${patternError ? "text-destructive" : "text-muted-foreground"}`}>
+        {patternError
+          ? "Invalid regular expression"
+          : selected.length === headers.length
+            ? "Applies to all columns"
+            : `Applies to ${selected.length} of ${headers.length} columns${
+                selected.length > 0 ? `: ${selected.map((index) => headers[index]).join(", ")}` : ""
+              }`}
+      </p>
+    </div>
+  );
+}
@@ -1,96 +1,293 @@
-
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { useState } from "react";
+import { AlertTriangleIcon, ArrowDownIcon, ArrowUpIcon, EyeOffIcon } from "lucide-react";
+import { CellEditor } from "@/components/CellEditor";
+import { ColumnFilterPopover } from "@/components/ColumnFilterPopover";
+import { useVirtualGrid } from "@/hooks/use-virtual-grid";
+import { ColumnFilter, ColumnSchema, SortKey, queryRows } from "@data-refine/core";
+import { useEffect, useMemo, useRef, useState } from "react";
 
 interface DataTableProps {
   data: string[][];
   headers: string[];
+  /** Column types, used to sort and filter numbers and dates by value */
+  schema: ColumnSchema[];
+  /** Columns left out of exports, shown dimmed */
+  hiddenColumns?: string[];
+  /** Makes cells editable by double-click; `row` indexes `data` */
+  onCellEdit?: (row: number, column: number, value: string) => void;
 }
 
-export function DataTable({ data, headers }: DataTableProps) {
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 40;
+const COLUMN_WIDTH = 180;
+const ROW_NUMBER_WIDTH = 80;
+
+export function DataTable({ data, headers, schema, hiddenColumns = [], onCellEdit }: DataTableProps) {
   const [searchTerm, setSearchTerm] = useState("");
-  const MAX_ROWS = 100;
+  const [sort, setSort] = useState<SortKey[]>([]);
+  const [filters, setFilters] = useState<Record<number, ColumnFilter>>({});
+  const [jumpTarget, setJumpTarget] = useState("");
+  const [jumpMessage, setJumpMessage] = useState("");
+  // Row briefly highlighted after jumping to it
+  const [highlightedRow, setHighlightedRow] = useState<number | null>(null);
+  const [editing, setEditing] = useState<{ row: number; column: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Sorting and filters refer to columns by position, so they end with the file
+  useEffect(() => {
+    setSort([]);
+    setFilters({});
+  }, [headers]);
+
+  // An open editor would show a stale value once the data changes, e.g. on undo
+  useEffect(() => {
+    setEditing(null);
+  }, [data]);
 
-  // Simple filter function for the data
-  const filteredData = data.filter((row) => 
-    row.some((cell) => 
-      cell.toLowerCase().includes(searchTerm.toLowerCase())
-    )
+  // Existing values of the edited column, offered when it is categorical
+  const editOptions = useMemo(() => {
+    if (!editing || schema[editing.column]?.type !== "categorical") return [];
+    const values = new Set(data.map((row) => row[editing.column] ?? "").filter((value) => value.trim() !== ""));
+    return [...values].sort((a, b) => a.localeCompare(b));
+  }, [editing, data, schema]);
+
+  const commitEdit = (value: string) => {
+    if (editing) onCellEdit?.(editing.row, editing.column, value);
+    setEditing(null);
+  };
+
+  // Indices of the matching rows in display order, so row numbers stay those of the file
+  const rowIndices = useMemo(
+    () => queryRows(data, schema, { search: searchTerm, filters, sort }),
+    [data, schema, searchTerm, filters, sort]
   );
 
-  // Show a preview of the data (limited to MAX_ROWS)
-  const displayData = filteredData.slice(0, MAX_ROWS);
-  const hasMoreRows = filteredData.length > MAX_ROWS;
+  const filterCount = Object.keys(filters).length;
+
+  // Click sorts by the column alone, shift-click adds it as a further key;
+  // each click cycles ascending, descending, unsorted
+  const toggleSort = (column: number, addKey: boolean) => {
+    const current = sort.find((key) => key.column === column);
+    const next: SortKey | null =
+      !current ? { column, direction: "asc" } : current.direction === "asc" ? { column, direction: "desc" } : null;
+
+    if (addKey) {
+      setSort(
+        current
+          ? sort.flatMap((key) => (key.column === column ? (next ? [next] : []) : [key]))
+          : [...sort, next!]
+      );
+    } else {
+      setSort(next ? [next] : []);
+    }
+  };
+
+  const setFilter = (column: number, filter: ColumnFilter | undefined) => {
+    const { [column]: _, ...rest } = filters;
+    setFilters(filter ? { ...rest, [column]: filter } : rest);
+  };
+
+  const grid = useVirtualGrid(containerRef, {
+    rowCount: rowIndices.length,
+    columnCount: headers.length,
+    rowHeight: ROW_HEIGHT,
+    columnWidth: COLUMN_WIDTH,
+    headerHeight: HEADER_HEIGHT,
+    stickyWidth: ROW_NUMBER_WIDTH,
+  });
+
+  useEffect(() => {
+    if (highlightedRow === null) return;
+    const timeout = setTimeout(() => setHighlightedRow(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedRow]);
+
+  const jumpToRow = () => {
+    const rowNumber = Number(jumpTarget);
+    if (!Number.isInteger(rowNumber) || rowNumber < 1 || rowNumber > data.length) {
+      setJumpMessage(`Enter a row between 1 and ${data.length}`);
+      return;
+    }
+
+    const position = rowIndices.indexOf(rowNumber - 1);
+    if (position < 0) {
+      setJumpMessage(`Row ${rowNumber} is hidden by the search or filters`);
+      return;
+    }
+
+    setJumpMessage("");
+    setHighlightedRow(rowNumber - 1);
+    grid.scrollToRow(position);
+  };
+
+  const visibleColumns = headers
+    .slice(grid.columns.first, grid.columns.last)
+    .map((header, offset) => ({ header, index: grid.columns.first + offset }));
+
+  // Stands in for the columns scrolled out of view on the left
+  const leftSpacer = grid.columns.first * COLUMN_WIDTH;
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-between items-center">
+      <div className="flex flex-wrap gap-2 justify-between items-center">
         <Input
           placeholder="Search data..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="max-w-sm"
         />
-        <div className="text-sm text-muted-foreground">
-          Showing {displayData.length} of {filteredData.length} rows
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={data.length}
+            placeholder="Row #"
+            value={jumpTarget}
+            onChange={(e) => setJumpTarget(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && jumpToRow()}
+            className="w-28"
+          />
+          <Button variant="outline" size="sm" onClick={jumpToRow} disabled={jumpTarget === ""}>
+            Go to Row
+          </Button>
         </div>
       </div>
 
-      <div className="border rounded-md">
-        <ScrollArea className="h-[500px]">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableCell className="font-medium sticky top-0 bg-background">
-                  Row
-                </TableCell>
-                {headers.map((header, index) => (
-                  <TableCell 
-                    key={index} 
-                    className="font-medium sticky top-0 bg-background"
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span className="flex items-center gap-2">
+          {rowIndices.length === data.length
+            ? `${data.length} rows`
+            : `${rowIndices.length} of ${data.length} rows match`}
+          {` • ${headers.length} columns`}
+          {(filterCount > 0 || sort.length > 0) && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => {
+                setSort([]);
+                setFilters({});
+              }}
+            >
+              Clear {[filterCount > 0 && `${filterCount} filters`, sort.length > 0 && "sorting"]
+                .filter(Boolean)
+                .join(" and ")}
+            </Button>
+          )}
+        </span>
+        {jumpMessage && <span className="text-destructive">{jumpMessage}</span>}
+      </div>
+
+      <div
+        ref={containerRef}
+        onScroll={grid.onScroll}
+        className="border rounded-md h-[500px] overflow-auto relative text-sm"
+      >
+        <div style={{ width: grid.scrollWidth }}>
+          <div className="flex sticky top-0 z-20 bg-background border-b font-medium" style={{ height: HEADER_HEIGHT }}>
+            <div
+              className="sticky left-0 z-10 bg-background border-r px-4 flex items-center shrink-0"
+              style={{ width: ROW_NUMBER_WIDTH }}
+            >
+              Row
+            </div>
+            <div className="shrink-0" style={{ width: leftSpacer }} />
+            {visibleColumns.map(({ header, index }) => {
+              const sortPosition = sort.findIndex((key) => key.column === index);
+              const SortIcon = sort[sortPosition]?.direction === "desc" ? ArrowDownIcon : ArrowUpIcon;
+              const isHidden = hiddenColumns.includes(header);
+              return (
+                <div
+                  key={index}
+                  className={`pl-4 pr-2 flex items-center gap-1 shrink-0 ${isHidden ? "text-muted-foreground" : ""}`}
+                  style={{ width: COLUMN_WIDTH }}
+                >
+                  {isHidden && <EyeOffIcon className="h-3 w-3 shrink-0" aria-label="Left out of exports" />}
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 min-w-0 flex-1 text-left hover:text-primary"
+                    title={`${header} – click to sort, shift-click to add to the sort`}
+                    onClick={(e) => toggleSort(index, e.shiftKey)}
+                  >
+                    <span className="truncate">{header}</span>
+                    {sortPosition >= 0 && (
+                      <span className="flex items-center shrink-0 text-primary">
+                        <SortIcon className="h-3 w-3" />
+                        {sort.length > 1 && <span className="text-[10px]">{sortPosition + 1}</span>}
+                      </span>
+                    )}
+                  </button>
+                  <ColumnFilterPopover
+                    header={header}
+                    column={schema[index]}
+                    filter={filters[index]}
+                    onChange={(filter) => setFilter(index, filter)}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="relative" style={{ height: grid.scrollHeight }}>
+            {rowIndices.slice(grid.rows.first, grid.rows.last).map((rowIndex, offset) => {
+              const row = data[rowIndex];
+              const background = rowIndex === highlightedRow ? "bg-yellow-100 dark:bg-yellow-900" : "bg-background";
+              return (
+                <div
+                  key={rowIndex}
+                  className={`flex absolute left-0 border-b ${background}`}
+                  style={{ top: grid.rowTop(grid.rows.first + offset), height: ROW_HEIGHT, width: grid.scrollWidth }}
+                >
+                  <div
+                    className={`sticky left-0 z-10 border-r px-4 flex items-center shrink-0 font-medium text-muted-foreground ${background}`}
+                    style={{ width: ROW_NUMBER_WIDTH }}
                   >
-                    {header}
-                  </TableCell>
-                ))}
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {displayData.map((row, rowIndex) => (
-                <TableRow key={rowIndex}>
-                  <TableCell className="font-medium text-muted-foreground">
                     {rowIndex + 1}
-                  </TableCell>
-                  {row.map((cell, cellIndex) => (
-                    <TableCell key={cellIndex}>
-                      {cell}
-                    </TableCell>
-                  ))}
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-          
-          {hasMoreRows && (
-            <div className="py-4 text-center text-sm text-muted-foreground border-t">
-              {filteredData.length - MAX_ROWS} more rows not shown
-            </div>
-          )}
-          
-          {displayData.length === 0 && (
-            <div className="flex items-center justify-center h-24 text-muted-foreground">
+                    {row.length !== headers.length && (
+                      <span
+                        className="ml-1 text-amber-600"
+                        title={`Ragged row: ${row.length} cells, expected ${headers.length}`}
+                      >
+                        <AlertTriangleIcon className="h-3 w-3" />
+                      </span>
+                    )}
+                  </div>
+                  <div className="shrink-0" style={{ width: leftSpacer }} />
+                  {visibleColumns.map(({ index }) =>
+                    editing?.row === rowIndex && editing.column === index ? (
+                      <div key={index} className="px-1 flex items-center shrink-0" style={{ width: COLUMN_WIDTH }}>
+                        <CellEditor
+                          value={row[index] ?? ""}
+                          column={schema[index]}
+                          options={editOptions}
+                          onCommit={commitEdit}
+                          onCancel={() => setEditing(null)}
+                        />
+                      </div>
+                    ) : (
+                      <div
+                        key={index}
+                        className={`px-4 flex items-center shrink-0 ${onCellEdit ? "cursor-text" : ""}`}
+                        style={{ width: COLUMN_WIDTH }}
+                        title={row[index]}
+                        onDoubleClick={onCellEdit && (() => setEditing({ row: rowIndex, column: index }))}
+                      >
+                        <span className="truncate">{row[index]}</span>
+                      </div>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {rowIndices.length === 0 && (
+            <div className="sticky left-0 w-fit px-4 py-8 text-muted-foreground">
               No data to display
             </div>
           )}
-        </ScrollArea>
+        </div>
       </div>
     </div>
   );
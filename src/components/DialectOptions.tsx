@@ -0,0 +1,72 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CSVDialect, DELIMITER_OPTIONS, QUOTE_OPTIONS } from "@data-refine/core";
+
+interface DialectOptionsProps {
+  dialect: CSVDialect;
+  detectedDialect?: CSVDialect;
+  onDialectChange: (dialect: CSVDialect) => void;
+}
+
+export function DialectOptions({ dialect, detectedDialect, onDialectChange }: DialectOptionsProps) {
+  const detectedLabel = (options: { value: string; label: string }[], value: string) =>
+    options.find((option) => option.value === value)?.label ?? JSON.stringify(value);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-left">
+      <div className="space-y-2">
+        <Label htmlFor="dialect-delimiter">Delimiter</Label>
+        <Select
+          value={dialect.delimiter}
+          onValueChange={(delimiter) => onDialectChange({ ...dialect, delimiter })}
+        >
+          <SelectTrigger id="dialect-delimiter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DELIMITER_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {detectedDialect && (
+          <p className="text-xs text-muted-foreground">
+            Detected: {detectedLabel(DELIMITER_OPTIONS, detectedDialect.delimiter)}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="dialect-quote">Quote character</Label>
+        <Select
+          value={dialect.quoteChar}
+          onValueChange={(quoteChar) => onDialectChange({ ...dialect, quoteChar })}
+        >
+          <SelectTrigger id="dialect-quote">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {QUOTE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {detectedDialect && (
+          <p className="text-xs text-muted-foreground">
+            Detected: {detectedLabel(QUOTE_OPTIONS, detectedDialect.quoteChar)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
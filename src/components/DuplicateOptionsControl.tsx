@@ -0,0 +1,125 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ColumnSelectorControl } from "@/components/ColumnSelectorControl";
+import { ColumnSchema, DuplicateConfig, SurvivorshipRule } from "@data-refine/core";
+
+interface DuplicateOptionsControlProps {
+  id: string;
+  config: DuplicateConfig;
+  onChange: (config: DuplicateConfig) => void;
+  headers: string[];
+  schema: ColumnSchema[];
+}
+
+const WHITESPACE_OPTIONS: { value: DuplicateConfig["whitespace"]; label: string }[] = [
+  { value: "exact", label: "Compare whitespace exactly" },
+  { value: "trim", label: "Ignore leading and trailing spaces" },
+  { value: "collapse", label: "Ignore all extra spaces" },
+];
+
+const SURVIVORSHIP_OPTIONS: { value: SurvivorshipRule; label: string }[] = [
+  { value: "first", label: "Keep first occurrence" },
+  { value: "last", label: "Keep last occurrence" },
+  { value: "mostComplete", label: "Keep most complete row" },
+  { value: "latest", label: "Keep latest by date column" },
+];
+
+export function DuplicateOptionsControl({ id, config, onChange, headers, schema }: DuplicateOptionsControlProps) {
+  // Offer date columns first, but any column can hold dates the inference missed
+  const columnIndices = headers.map((_, index) => index);
+  const isDate = (index: number) => ["date", "datetime"].includes(schema[index]?.type);
+  const dateColumnOrder = [...columnIndices.filter(isDate), ...columnIndices.filter((index) => !isDate(index))];
+  const dateColumnIndex = headers.indexOf(config.dateColumn);
+
+  return (
+    <div className="space-y-2 pl-6">
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-key-columns`} className="text-xs text-muted-foreground">
+          Match rows on
+        </Label>
+        <ColumnSelectorControl
+          id={`${id}-key-columns`}
+          selector={config.keyColumns}
+          onChange={(keyColumns) => onChange({ ...config, keyColumns })}
+          headers={headers}
+          schema={schema}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <Label htmlFor={`${id}-case`} className="text-xs">Case-sensitive</Label>
+        <Switch
+          id={`${id}-case`}
+          checked={config.caseSensitive}
+          onCheckedChange={(caseSensitive) => onChange({ ...config, caseSensitive })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <Label htmlFor={`${id}-accents`} className="text-xs">Accent-sensitive</Label>
+        <Switch
+          id={`${id}-accents`}
+          checked={config.accentSensitive}
+          onCheckedChange={(accentSensitive) => onChange({ ...config, accentSensitive })}
+        />
+      </div>
+
+      <Select
+        value={config.whitespace}
+        onValueChange={(whitespace) => onChange({ ...config, whitespace: whitespace as DuplicateConfig["whitespace"] })}
+      >
+        <SelectTrigger id={`${id}-whitespace`} className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {WHITESPACE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={config.survivorship}
+        onValueChange={(survivorship) => onChange({ ...config, survivorship: survivorship as SurvivorshipRule })}
+      >
+        <SelectTrigger id={`${id}-survivorship`} className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SURVIVORSHIP_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {config.survivorship === "latest" && (
+        <Select
+          value={dateColumnIndex >= 0 ? String(dateColumnIndex) : undefined}
+          onValueChange={(index) => onChange({ ...config, dateColumn: headers[Number(index)] })}
+        >
+          <SelectTrigger id={`${id}-date-column`} className="h-8 text-xs">
+            <SelectValue placeholder="Select date column" />
+          </SelectTrigger>
+          <SelectContent>
+            {dateColumnOrder.map((index) => (
+              <SelectItem key={index} value={String(index)}>
+                {headers[index] || `Column ${index + 1}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
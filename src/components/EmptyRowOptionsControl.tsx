@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ColumnSelectorControl } from "@/components/ColumnSelectorControl";
+import { ColumnSchema, EmptyRowConfig, EmptyRowOptions } from "@data-refine/core";
+
+interface EmptyRowOptionsControlProps {
+  id: string;
+  config: EmptyRowConfig;
+  onChange: (config: EmptyRowConfig) => void;
+  data: string[][];
+  headers: string[];
+  schema: ColumnSchema[];
+  /** Indices of the rows the current configuration would remove */
+  emptyRows: number[];
+}
+
+const MODE_OPTIONS: { value: EmptyRowOptions["mode"]; label: string }[] = [
+  { value: "all", label: "All cells are empty" },
+  { value: "keyColumns", label: "All key columns are empty" },
+  { value: "threshold", label: "More than N% of cells are empty" },
+];
+
+const PREVIEW_ROWS = 100;
+
+export function EmptyRowOptionsControl({
+  id,
+  config,
+  onChange,
+  data,
+  headers,
+  schema,
+  emptyRows,
+}: EmptyRowOptionsControlProps) {
+  return (
+    <div className="space-y-2 pl-6">
+      <Select
+        value={config.mode}
+        onValueChange={(mode) => onChange({ ...config, mode: mode as EmptyRowOptions["mode"] })}
+      >
+        <SelectTrigger id={`${id}-mode`} className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MODE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {config.mode === "keyColumns" && (
+        <ColumnSelectorControl
+          id={`${id}-key-columns`}
+          selector={config.keyColumns}
+          onChange={(keyColumns) => onChange({ ...config, keyColumns })}
+          headers={headers}
+          schema={schema}
+        />
+      )}
+
+      {config.mode === "threshold" && (
+        <div className="flex items-center space-x-2 text-xs">
+          <span>More than</span>
+          <Input
+            type="number"
+            min={0}
+            max={99}
+            className="h-8 w-20 text-xs"
+            value={config.percent}
+            onChange={(e) => onChange({ ...config, percent: Math.min(99, Math.max(0, Number(e.target.value))) })}
+          />
+          <span>% of cells empty</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{emptyRows.length} rows would be removed</span>
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" disabled={emptyRows.length === 0}>
+              Preview
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Rows to be removed</DialogTitle>
+              <DialogDescription>
+                {emptyRows.length > PREVIEW_ROWS
+                  ? `Showing the first ${PREVIEW_ROWS} of ${emptyRows.length} rows`
+                  : `${emptyRows.length} rows`}
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="h-[400px] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    {headers.map((header, index) => (
+                      <TableHead key={index}>{header}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {emptyRows.slice(0, PREVIEW_ROWS).map((rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      <TableCell className="font-medium text-muted-foreground">{rowIndex + 1}</TableCell>
+                      {headers.map((_, cellIndex) => (
+                        <TableCell key={cellIndex}>{data[rowIndex][cellIndex]}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ENCODING_OPTIONS, EncodingDetection, decodeSample } from "@data-refine/core";
+
+interface EncodingOptionsProps {
+  bytes: Uint8Array;
+  detection: EncodingDetection;
+  encoding: string;
+  onEncodingChange: (encoding: string) => void;
+}
+
+const PREVIEW_LINES = 3;
+
+export function EncodingOptions({ bytes, detection, encoding, onEncodingChange }: EncodingOptionsProps) {
+  // Decode the first few lines under every candidate so mojibake is easy to spot
+  const previews = useMemo(
+    () =>
+      detection.candidates.map(({ encoding: candidate, confidence }) => ({
+        encoding: candidate,
+        confidence,
+        label: ENCODING_OPTIONS.find((option) => option.value === candidate)?.label ?? candidate,
+        lines: decodeSample(bytes.subarray(0, 4096), candidate)
+          .replace(/^\uFEFF/, "")
+          .split(/\r\n|\n|\r/)
+          .slice(0, PREVIEW_LINES),
+      })),
+    [bytes, detection]
+  );
+
+  return (
+    <div className="space-y-2 text-left">
+      <Label>Character encoding</Label>
+      <RadioGroup value={encoding} onValueChange={onEncodingChange} className="max-h-72 overflow-y-auto">
+        {previews.map((preview) => (
+          <label
+            key={preview.encoding}
+            htmlFor={`encoding-${preview.encoding}`}
+            className={`flex items-start space-x-3 rounded-md border p-3 cursor-pointer ${
+              preview.encoding === encoding ? "border-primary bg-primary/5" : ""
+            }`}
+          >
+            <RadioGroupItem id={`encoding-${preview.encoding}`} value={preview.encoding} className="mt-1" />
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-center space-x-2 text-sm font-medium">
+                <span>{preview.label}</span>
+                {preview.encoding === detection.encoding && <Badge variant="secondary">Detected</Badge>}
+                <span className="text-xs text-muted-foreground">{Math.round(preview.confidence * 100)}%</span>
+              </div>
+              <pre className="text-xs text-muted-foreground truncate">{preview.lines.join("\n")}</pre>
+            </div>
+          </label>
+        ))}
+      </RadioGroup>
+      {detection.hasBOM && (
+        <p className="text-xs text-muted-foreground">A byte order mark was found at the start of the file</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { DialectOptions } from "@/components/DialectOptions";
+import { CSVDialect, ENCODING_OPTIONS, LINE_ENDING_OPTIONS, isUnicodeEncoding } from "@data-refine/core";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dialect: CSVDialect;
+  encoding: string;
+  onExport: (dialect: CSVDialect, encoding: string) => void;
+}
+
+export function ExportDialog({ open, onOpenChange, dialect, encoding, onExport }: ExportDialogProps) {
+  const [exportDialect, setExportDialect] = useState<CSVDialect>(dialect);
+  const [exportEncoding, setExportEncoding] = useState(encoding);
+
+  // Start from the uploaded file's dialect and encoding every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setExportDialect(dialect);
+      setExportEncoding(encoding);
+    }
+  }, [open, dialect, encoding]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export CSV</DialogTitle>
+          <DialogDescription>
+            Defaults match the format of the uploaded file
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <DialectOptions dialect={exportDialect} onDialectChange={setExportDialect} />
+
+          <div className="space-y-2">
+            <Label htmlFor="export-encoding">Encoding</Label>
+            <Select value={exportEncoding} onValueChange={setExportEncoding}>
+              <SelectTrigger id="export-encoding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENCODING_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isUnicodeEncoding(exportEncoding) && (
+              <p className="text-xs text-muted-foreground">
+                Characters this encoding cannot represent are written as "?"
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="export-line-ending">Line ending</Label>
+            <Select
+              value={exportDialect.lineEnding}
+              onValueChange={(lineEnding) =>
+                setExportDialect({ ...exportDialect, lineEnding: lineEnding as CSVDialect["lineEnding"] })
+              }
+            >
+              <SelectTrigger id="export-line-ending">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINE_ENDING_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-bom">Include byte order mark (BOM)</Label>
+            <Switch
+              id="export-bom"
+              disabled={!isUnicodeEncoding(exportEncoding)}
+              checked={exportDialect.hasBOM && isUnicodeEncoding(exportEncoding)}
+              onCheckedChange={(hasBOM) => setExportDialect({ ...exportDialect, hasBOM })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onExport(exportDialect, exportEncoding)}>Download</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
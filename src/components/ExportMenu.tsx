@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDownIcon, DownloadIcon } from "lucide-react";
+import { EXPORT_FORMATS, ExportFormat } from "@/utils/exportUtils";
+
+interface ExportMenuProps {
+  onSelect: (format: ExportFormat) => void;
+}
+
+export function ExportMenu({ onSelect }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button className="w-full">
+          <DownloadIcon className="h-4 w-4 mr-2" />
+          Download Cleaned Data
+          <ChevronDownIcon className="h-4 w-4 ml-2" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format.value} onSelect={() => onSelect(format.value)}>
+            <span className="flex-1">{format.label}</span>
+            <span className="text-xs text-muted-foreground">{format.extension}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,20 +1,89 @@
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import type { WorkBook } from "xlsx";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { FileIcon, UploadCloudIcon, XIcon } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/components/ui/use-toast";
-import { parseCSV } from "@/utils/csvUtils";
+import { DialectOptions } from "@/components/DialectOptions";
+import { EncodingOptions } from "@/components/EncodingOptions";
+import { RecordPreview } from "@/components/RecordPreview";
+import { SheetPicker } from "@/components/SheetPicker";
+import { JSONImportOptions } from "@/components/JSONImportOptions";
+import { useCSVParser } from "@/hooks/use-csv-parser";
+import {
+  ArrayMode,
+  CSVDialect,
+  DEFAULT_DIALECT,
+  EncodingDetection,
+  RaggedRowSummary,
+  decodeSample,
+  detectEncoding,
+  parseJSONRecords,
+  sniffDialect,
+  tokenizeSample,
+} from "@data-refine/core";
+import { readWorkbook } from "@/utils/excelUtils";
+
+/**
+ * Where the loaded data came from. Dialect and encoding are the defaults
+ * offered on export; sheet and range are only set for Excel workbooks and
+ * the array mode only for JSON files.
+ */
+export interface FileSource {
+  fileName: string;
+  format: "csv" | "excel" | "json";
+  dialect: CSVDialect;
+  encoding: string;
+  sheetName?: string;
+  range?: string;
+  arrayMode?: ArrayMode;
+  /** Rows of a delimited file whose cell count differs from the headers */
+  ragged?: RaggedRowSummary;
+}
 
 interface FileUploadProps {
-  onFileUploaded: (data: string[][], headers: string[], fileName: string) => void;
+  onFileUploaded: (data: string[][], headers: string[], source: FileSource) => void;
 }
 
+const PREVIEW_RECORDS = 6;
+// Only the start of the file is read on the main thread, for sniffing and preview
+const SAMPLE_BYTES = 65536;
+const TEXT_EXTENSIONS = [".csv", ".tsv", ".psv", ".txt"];
+const EXCEL_EXTENSIONS = [".xlsx", ".xls"];
+const NDJSON_EXTENSIONS = [".ndjson", ".jsonl"];
+const JSON_EXTENSIONS = [".json", ...NDJSON_EXTENSIONS];
+const ACCEPTED_EXTENSIONS = [...TEXT_EXTENSIONS, ...EXCEL_EXTENSIONS, ...JSON_EXTENSIONS];
+
+const hasExtension = (file: File, extensions: string[]) =>
+  extensions.some((extension) => file.name.toLowerCase().endsWith(extension));
+
 export function FileUpload({ onFileUploaded }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [file, setFile] = useState<File | null>(null);
+  const [sampleBytes, setSampleBytes] = useState<Uint8Array | null>(null);
+  const [encodingDetection, setEncodingDetection] = useState<EncodingDetection | null>(null);
+  const [encoding, setEncoding] = useState("utf-8");
+  const [sample, setSample] = useState<string | null>(null);
+  const [detectedDialect, setDetectedDialect] = useState<CSVDialect | null>(null);
+  const [dialect, setDialect] = useState<CSVDialect | null>(null);
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+  const [jsonRecords, setJsonRecords] = useState<unknown[] | null>(null);
   const { toast } = useToast();
+  const { parseFile, cancel, progress, isParsing } = useCSVParser();
+
+  // Parse the first few records with the current dialect so overrides can be checked
+  const preview = useMemo(() => {
+    if (sample === null || !dialect) return null;
+    try {
+      const text = dialect.hasBOM ? sample.slice(1) : sample;
+      return { records: tokenizeSample(text, { ...dialect, maxRecords: PREVIEW_RECORDS }), error: null };
+    } catch (error) {
+      return { records: [], error: String(error) };
+    }
+  }, [sample, dialect]);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -47,58 +116,126 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
   };
 
   const processFile = async (file: File) => {
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!hasExtension(file, ACCEPTED_EXTENSIONS)) {
       toast({
         title: "Invalid file format",
-        description: "Please upload a CSV file",
+        description: "Please upload a delimited text file, an Excel workbook or a JSON file",
         variant: "destructive",
       });
       return;
     }
 
+    // Nothing read from the previous file carries over
+    removeFile();
     setFile(file);
     setIsProcessing(true);
 
     try {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        
-        try {
-          const { data, headers } = parseCSV(content);
-          onFileUploaded(data, headers, file.name);
-        } catch (error) {
-          toast({
-            title: "Error parsing CSV",
-            description: String(error) || "Failed to parse the uploaded file",
-            variant: "destructive",
-          });
-        } finally {
-          setIsProcessing(false);
-        }
-      };
-      
-      reader.readAsText(file);
+      if (hasExtension(file, EXCEL_EXTENSIONS)) {
+        setWorkbook(await readWorkbook(await file.arrayBuffer()));
+        return;
+      }
+
+      if (hasExtension(file, JSON_EXTENSIONS)) {
+        const format = hasExtension(file, NDJSON_EXTENSIONS) ? "ndjson" : "json";
+        setJsonRecords(parseJSONRecords(await file.text(), format));
+        return;
+      }
+
+      const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+      const detection = detectEncoding(bytes);
+
+      setSampleBytes(bytes);
+      setEncodingDetection(detection);
+      applyEncoding(bytes, detection.encoding);
     } catch (error) {
       toast({
         title: "Error reading file",
         description: String(error) || "Failed to read the uploaded file",
         variant: "destructive",
       });
+    } finally {
       setIsProcessing(false);
     }
   };
 
+  // Decode the sample with the given encoding and sniff its dialect again
+  const applyEncoding = (bytes: Uint8Array, nextEncoding: string) => {
+    const text = decodeSample(bytes, nextEncoding);
+    const sniffed = sniffDialect(text);
+
+    setEncoding(nextEncoding);
+    setSample(text);
+    setDetectedDialect(sniffed);
+    setDialect(sniffed);
+  };
+
+  const loadData = async () => {
+    if (!file || !dialect) return;
+
+    try {
+      const result = await parseFile(file, dialect, encoding);
+      if (result) {
+        onFileUploaded(result.data, result.headers, {
+          fileName: file.name,
+          format: "csv",
+          dialect,
+          encoding,
+          ragged: result.ragged,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error parsing CSV",
+        description: String(error) || "Failed to parse the uploaded file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadSheet = (data: string[][], headers: string[], sheetName: string, range: string) => {
+    if (!file) return;
+
+    onFileUploaded(data, headers, {
+      fileName: file.name,
+      format: "excel",
+      dialect: DEFAULT_DIALECT,
+      encoding: "utf-8",
+      sheetName,
+      range,
+    });
+  };
+
+  const loadRecords = (data: string[][], headers: string[], arrayMode: ArrayMode) => {
+    if (!file) return;
+
+    onFileUploaded(data, headers, {
+      fileName: file.name,
+      format: "json",
+      dialect: DEFAULT_DIALECT,
+      encoding: "utf-8",
+      arrayMode,
+    });
+  };
+
   const removeFile = () => {
+    cancel();
     setFile(null);
+    setSampleBytes(null);
+    setEncodingDetection(null);
+    setSample(null);
+    setDetectedDialect(null);
+    setDialect(null);
+    setWorkbook(null);
+    setJsonRecords(null);
   };
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Upload CSV File</CardTitle>
+        <CardTitle>Upload File</CardTitle>
         <CardDescription>
-          Drag and drop your CSV file or click to browse
+          Drag and drop a CSV, Excel or JSON file or click to browse
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -115,7 +252,7 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
             type="file"
             id="file-upload"
             className="hidden"
-            accept=".csv"
+            accept={ACCEPTED_EXTENSIONS.join(",")}
             onChange={handleFileChange}
             disabled={isProcessing}
           />
@@ -127,10 +264,10 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
               </div>
               <div className="space-y-2">
                 <h3 className="text-lg font-medium">
-                  {isDragging ? "Drop to upload" : "Upload CSV file"}
+                  {isDragging ? "Drop to upload" : "Upload CSV, Excel or JSON file"}
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  Drag and drop your CSV file here or click to browse
+                  Drag and drop your CSV, TSV, Excel, JSON or NDJSON file here or click to browse
                 </p>
               </div>
               <Button variant="outline" disabled={isProcessing}>
@@ -173,6 +310,64 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
             </div>
           )}
         </div>
+
+        {workbook && (
+          <div className="mt-6">
+            <SheetPicker workbook={workbook} onLoad={loadSheet} />
+          </div>
+        )}
+
+        {jsonRecords && (
+          <div className="mt-6">
+            <JSONImportOptions records={jsonRecords} onLoad={loadRecords} />
+          </div>
+        )}
+
+        {dialect && detectedDialect && preview && (
+          <div className="mt-6 space-y-4">
+            {sampleBytes && encodingDetection && (
+              <EncodingOptions
+                bytes={sampleBytes}
+                detection={encodingDetection}
+                encoding={encoding}
+                onEncodingChange={(nextEncoding) => applyEncoding(sampleBytes, nextEncoding)}
+              />
+            )}
+
+            <DialectOptions
+              dialect={dialect}
+              detectedDialect={detectedDialect}
+              onDialectChange={setDialect}
+            />
+
+            {preview.error ? (
+              <p className="text-sm text-destructive">{preview.error}</p>
+            ) : (
+              <RecordPreview records={preview.records} />
+            )}
+
+            {progress ? (
+              <div className="space-y-2">
+                <Progress value={progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0} />
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>
+                    {progress.rowsParsed.toLocaleString()} rows parsed
+                    {progress.estimatedRows > 0 && ` of ~${progress.estimatedRows.toLocaleString()}`}
+                    {" • "}
+                    {Math.round(progress.bytesRead / 1024 / 1024)} of {Math.round(progress.totalBytes / 1024 / 1024)} MB
+                  </span>
+                  <Button variant="outline" size="sm" onClick={cancel}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button className="w-full" onClick={loadData} disabled={!!preview.error || isParsing}>
+                Load Data
+              </Button>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
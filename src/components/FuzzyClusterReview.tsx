@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  BLOCKING_METHODS,
+  BlockingMethod,
+  ClusterAction,
+  ClusterDecision,
+  ColumnSchema,
+  FUZZY_ALGORITHMS,
+  FuzzyAlgorithm,
+  FuzzyCluster,
+  StepResult,
+  TEXTUAL_TYPES,
+  applyClusterDecisions,
+  clusterRowCount,
+  findClusters,
+} from "@data-refine/core";
+
+interface FuzzyClusterReviewProps {
+  data: string[][];
+  headers: string[];
+  schema: ColumnSchema[];
+  /** Called with the outcome as a step result, so it can be traced in the change report */
+  onApply: (result: StepResult, detail: string) => void;
+}
+
+const ACTION_LABELS: Record<ClusterAction, string> = {
+  merge: "Merge rows",
+  canonical: "Use value",
+  reject: "Reject",
+};
+
+export function FuzzyClusterReview({ data, headers, schema, onApply }: FuzzyClusterReviewProps) {
+  const [column, setColumn] = useState(() => {
+    const textual = schema.findIndex((columnSchema) => TEXTUAL_TYPES.includes(columnSchema.type));
+    return Math.max(0, textual);
+  });
+  const [algorithm, setAlgorithm] = useState<FuzzyAlgorithm>("jaroWinkler");
+  const [threshold, setThreshold] = useState(0.9);
+  const [blocking, setBlocking] = useState<BlockingMethod>("prefix");
+  const [clusters, setClusters] = useState<FuzzyCluster[] | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, ClusterDecision>>({});
+  const [isSearching, setIsSearching] = useState(false);
+  const { toast } = useToast();
+
+  // Clusters hold row indices, so they are stale once the data changes
+  useEffect(() => {
+    setClusters(null);
+  }, [data]);
+
+  const isSimilarity = FUZZY_ALGORITHMS.find(({ value }) => value === algorithm)?.kind === "similarity";
+
+  const search = () => {
+    setIsSearching(true);
+
+    setTimeout(() => {
+      try {
+        const found = findClusters(data, column, { algorithm, threshold, blocking });
+        setClusters(found);
+        // Nothing changes until a cluster is reviewed
+        setDecisions(
+          Object.fromEntries(
+            found.map((cluster) => [cluster.id, { action: "reject", canonical: cluster.values[0].value }])
+          )
+        );
+      } catch (error) {
+        toast({
+          title: "Error finding clusters",
+          description: String(error) || "An error occurred while comparing values",
+          variant: "destructive",
+        });
+      } finally {
+        setIsSearching(false);
+      }
+    }, 0);
+  };
+
+  const setDecision = (id: string, decision: Partial<ClusterDecision>) => {
+    setDecisions({ ...decisions, [id]: { ...decisions[id], ...decision } });
+  };
+
+  const apply = () => {
+    if (!clusters) return;
+
+    const result = applyClusterDecisions(data, column, clusters, decisions);
+    const detail = `${result.cellsUpdated} values updated and ${result.rowsMerged} rows merged`;
+    setClusters(null);
+    onApply(
+      {
+        stepId: `fuzzy-${headers[column]}`,
+        data: result.data,
+        rowsBefore: data.length,
+        rowsAfter: result.data.length,
+        cellsChanged: result.cellsUpdated,
+        sourceRows: result.kept,
+        removals: result.merged.map(({ index, into }) => ({ row: index, reason: "merged", duplicateOf: into })),
+      },
+      detail
+    );
+
+    toast({
+      title: "Clusters applied",
+      description: detail,
+    });
+  };
+
+  const accepted = clusters ? clusters.filter((cluster) => decisions[cluster.id]?.action !== "reject").length : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Fuzzy Duplicates</CardTitle>
+        <CardDescription>Find values that are spelled differently but mean the same thing</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Select value={String(column)} onValueChange={(index) => { setColumn(Number(index)); setClusters(null); }}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {headers.map((header, index) => (
+              <SelectItem key={index} value={String(index)}>
+                {header || `Column ${index + 1}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as FuzzyAlgorithm)}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FUZZY_ALGORITHMS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isSimilarity && (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <Label className="text-xs">Minimum similarity</Label>
+                <span className="font-mono">{Math.round(threshold * 100)}%</span>
+              </div>
+              <Slider
+                min={50}
+                max={100}
+                step={1}
+                value={[Math.round(threshold * 100)]}
+                onValueChange={([value]) => setThreshold(value / 100)}
+              />
+            </div>
+            <Select value={blocking} onValueChange={(value) => setBlocking(value as BlockingMethod)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BLOCKING_METHODS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+
+        <Button variant="outline" className="w-full" onClick={search} disabled={isSearching}>
+          {isSearching ? "Comparing values..." : "Find Clusters"}
+        </Button>
+
+        {clusters && (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              {clusters.length === 0 ? "No similar values found" : `${clusters.length} clusters found`}
+            </p>
+
+            {clusters.length > 0 && (
+              <div className="max-h-[400px] overflow-y-auto space-y-3 pr-1">
+                {clusters.map((cluster) => {
+                  const decision = decisions[cluster.id];
+
+                  return (
+                    <div key={cluster.id} className="border rounded-md p-3 space-y-2">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>{clusterRowCount(cluster)} rows</span>
+                        <ToggleGroup
+                          type="single"
+                          size="sm"
+                          value={decision.action}
+                          onValueChange={(action) => action && setDecision(cluster.id, { action: action as ClusterAction })}
+                        >
+                          {(Object.keys(ACTION_LABELS) as ClusterAction[]).map((action) => (
+                            <ToggleGroupItem key={action} value={action} className="h-7 px-2 text-xs">
+                              {ACTION_LABELS[action]}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                      </div>
+                      <ul className="space-y-1">
+                        {cluster.values.map(({ value, rows }) => (
+                          <li key={value}>
+                            <button
+                              type="button"
+                              className={`w-full flex items-center justify-between rounded px-2 py-1 text-sm text-left ${
+                                decision.canonical === value ? "bg-primary/10 font-medium" : "hover:bg-muted"
+                              }`}
+                              onClick={() => setDecision(cluster.id, { canonical: value })}
+                              title="Use as canonical value"
+                            >
+                              <span className="truncate">{value}</span>
+                              <Badge variant="secondary">{rows.length}</Badge>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {clusters.length > 0 && (
+              <Button className="w-full" onClick={apply} disabled={accepted === 0}>
+                Apply {accepted} of {clusters.length} Clusters
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
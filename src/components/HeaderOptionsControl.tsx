@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { HEADER_CASES, HeaderCase, HeaderOptions, headerChanges, normalizeHeaders } from "@data-refine/core";
+
+interface HeaderOptionsControlProps {
+  id: string;
+  config: HeaderOptions;
+  onChange: (config: HeaderOptions) => void;
+  /** Headers entering the step, shown next to their new names */
+  headers: string[];
+}
+
+const SWITCHES: { key: Exclude<keyof HeaderOptions, "caseStyle">; label: string }[] = [
+  { key: "stripSpecial", label: "Strip special characters" },
+  { key: "nameBlanks", label: "Name blank headers" },
+  { key: "deduplicate", label: "Number repeated names" },
+];
+
+// Invisible characters such as byte order marks show up as escapes
+const showInvisible = (header: string) =>
+  header.replace(/[\uFEFF\u200B-\u200D\u2060]/g, (char) => `\\u${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+export function HeaderOptionsControl({ id, config, onChange, headers }: HeaderOptionsControlProps) {
+  const changes = useMemo(() => headerChanges(headers, normalizeHeaders(headers, config)), [headers, config]);
+
+  return (
+    <div className="space-y-2 pl-6">
+      <Select
+        value={config.caseStyle}
+        onValueChange={(caseStyle) => onChange({ ...config, caseStyle: caseStyle as HeaderCase })}
+      >
+        <SelectTrigger id={`${id}-case`} className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {HEADER_CASES.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label} <span className="text-muted-foreground">({option.example})</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {SWITCHES.map(({ key, label }) => (
+        <div key={key} className="flex items-center justify-between text-xs">
+          <Label htmlFor={`${id}-${key}`} className="text-xs">{label}</Label>
+          <Switch
+            id={`${id}-${key}`}
+            checked={config[key]}
+            onCheckedChange={(checked) => onChange({ ...config, [key]: checked })}
+          />
+        </div>
+      ))}
+
+      {changes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No header changes</p>
+      ) : (
+        <div className="max-h-40 overflow-y-auto rounded-md border">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="px-2 py-1 text-left font-medium">Old name</th>
+                <th className="px-2 py-1 text-left font-medium">New name</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map(({ column, from, to }) => (
+                <tr key={column} className="border-t">
+                  <td className="px-2 py-1 line-through text-muted-foreground">
+                    {from === "" ? <em>(blank)</em> : showInvisible(from)}
+                  </td>
+                  <td className="px-2 py-1">{to === "" ? <em>(blank)</em> : to}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
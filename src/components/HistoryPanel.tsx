@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Redo2Icon, Undo2Icon } from "lucide-react";
+import type { HistoryEntry } from "@/hooks/use-history";
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  /** Position of the current state in `entries` */
+  index: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+export function HistoryPanel({ entries, index, onJump, onUndo, onRedo }: HistoryPanelProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">History</CardTitle>
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={onUndo}
+              disabled={index === 0}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2Icon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={onRedo}
+              disabled={index === entries.length - 1}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2Icon className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <CardDescription>Click an entry to go back to that state</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ScrollArea className="h-[400px]">
+          <ol className="divide-y">
+            {entries.map((entry, entryIndex) => (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  className={`w-full px-6 py-2 text-left space-y-0.5 ${
+                    entryIndex === index ? "bg-primary/10" : "hover:bg-muted"
+                  } ${entryIndex > index ? "opacity-50" : ""}`}
+                  onClick={() => onJump(entryIndex)}
+                >
+                  <div className="flex items-center justify-between text-sm">
+                    <span className={entryIndex === index ? "font-medium" : ""}>{entry.label}</span>
+                    <span className="text-xs text-muted-foreground">{formatTime(entry.timestamp)}</span>
+                  </div>
+                  {entry.detail && <p className="text-xs text-muted-foreground">{entry.detail}</p>}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { RecordPreview } from "@/components/RecordPreview";
+import { ArrayMode, flattenRecords } from "@data-refine/core";
+
+interface JSONImportOptionsProps {
+  records: unknown[];
+  onLoad: (data: string[][], headers: string[], arrayMode: ArrayMode) => void;
+}
+
+const PREVIEW_RECORDS = 5;
+
+export function JSONImportOptions({ records, onLoad }: JSONImportOptionsProps) {
+  const [arrayMode, setArrayMode] = useState<ArrayMode>("stringify");
+
+  const preview = useMemo(() => {
+    const { data, headers } = flattenRecords(records.slice(0, PREVIEW_RECORDS), arrayMode);
+    return [headers, ...data];
+  }, [records, arrayMode]);
+
+  const load = () => {
+    const { data, headers } = flattenRecords(records, arrayMode);
+    onLoad(data, headers, arrayMode);
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="space-y-2">
+        <Label>Arrays</Label>
+        <RadioGroup value={arrayMode} onValueChange={(value) => setArrayMode(value as ArrayMode)}>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem id="array-stringify" value="stringify" />
+            <Label htmlFor="array-stringify" className="font-normal">
+              Keep as JSON text in one cell
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem id="array-explode" value="explode" />
+            <Label htmlFor="array-explode" className="font-normal">
+              Explode into one row per element
+            </Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {records.length} records • {preview[0].length} columns in the first {Math.min(records.length, PREVIEW_RECORDS)}
+      </p>
+      {preview[0].length > 0 && <RecordPreview records={preview} />}
+
+      <Button className="w-full" onClick={load} disabled={records.length === 0}>
+        Load Records
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlignLeftIcon,
+  BarChart2Icon,
+  CheckIcon,
+  Columns3Icon,
+  EyeIcon,
+  EyeOffIcon,
+  FilterIcon,
+  GripVerticalIcon,
+  HeadingIcon,
+  LucideIcon,
+  PencilIcon,
+  Rows3Icon,
+  XIcon,
+} from "lucide-react";
+import { ColumnSelectorControl } from "@/components/ColumnSelectorControl";
+import { DuplicateOptionsControl } from "@/components/DuplicateOptionsControl";
+import { EmptyRowOptionsControl } from "@/components/EmptyRowOptionsControl";
+import { HeaderOptionsControl } from "@/components/HeaderOptionsControl";
+import { RaggedRowOptionsControl } from "@/components/RaggedRowOptionsControl";
+import {
+  CellEdit,
+  ColumnSchema,
+  PipelineStep,
+  StepResult,
+  StepType,
+  findEmptyRows,
+  stepLabel,
+  toEmptyRowOptions,
+} from "@data-refine/core";
+
+interface PipelineStepCardProps {
+  step: PipelineStep;
+  onChange: (step: PipelineStep) => void;
+  onRemove: () => void;
+  onRemoveEdit: (edit: CellEdit) => void;
+  onPreview: () => void;
+  headers: string[];
+  schema: ColumnSchema[];
+  /** Data entering this step, used by the empty-row and ragged-row previews */
+  inputData: string[][];
+  /** Result of the last run, when it is still current */
+  result?: StepResult;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDragOver: () => void;
+}
+
+const STEP_ICONS: Record<StepType, LucideIcon> = {
+  normalizeHeaders: HeadingIcon,
+  repairRaggedRows: Rows3Icon,
+  removeEmptyRows: BarChart2Icon,
+  removeDuplicates: FilterIcon,
+  trimWhitespace: AlignLeftIcon,
+  standardizeCase: CheckIcon,
+  editCells: PencilIcon,
+  manageColumns: Columns3Icon,
+};
+
+export function PipelineStepCard({
+  step,
+  onChange,
+  onRemove,
+  onRemoveEdit,
+  onPreview,
+  headers,
+  schema,
+  inputData,
+  result,
+  isDragging,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+}: PipelineStepCardProps) {
+  const Icon = STEP_ICONS[step.type];
+
+  const emptyRows = useMemo(
+    () =>
+      step.type === "removeEmptyRows" && step.enabled
+        ? findEmptyRows(inputData, toEmptyRowOptions(step.config, { headers, schema }))
+        : [],
+    [step, inputData, headers, schema]
+  );
+
+  const renderConfig = () => {
+    switch (step.type) {
+      case "normalizeHeaders":
+        return (
+          <HeaderOptionsControl
+            id={step.id}
+            config={step.config}
+            onChange={(config) => onChange({ ...step, config })}
+            headers={headers}
+          />
+        );
+      case "repairRaggedRows":
+        return (
+          <RaggedRowOptionsControl
+            id={step.id}
+            config={step.config}
+            onChange={(config) => onChange({ ...step, config })}
+            data={inputData}
+            columnCount={headers.length}
+          />
+        );
+      case "removeEmptyRows":
+        return (
+          <EmptyRowOptionsControl
+            id={step.id}
+            config={step.config}
+            onChange={(config) => onChange({ ...step, config })}
+            data={inputData}
+            headers={headers}
+            schema={schema}
+            emptyRows={emptyRows}
+          />
+        );
+      case "removeDuplicates":
+        return (
+          <DuplicateOptionsControl
+            id={step.id}
+            config={step.config}
+            onChange={(config) => onChange({ ...step, config })}
+            headers={headers}
+            schema={schema}
+          />
+        );
+      case "trimWhitespace":
+      case "standardizeCase":
+        return (
+          <div className="pl-6">
+            <ColumnSelectorControl
+              id={`${step.id}-columns`}
+              selector={step.config.columns}
+              onChange={(columns) => onChange({ ...step, config: { columns } })}
+              headers={headers}
+              schema={schema}
+            />
+          </div>
+        );
+      case "editCells":
+        return (
+          <ul className="pl-6 space-y-1 text-xs max-h-40 overflow-y-auto">
+            {step.config.edits.length === 0 && <li className="text-muted-foreground">Double-click a cell to edit it</li>}
+            {step.config.edits.map((edit) => (
+              <li key={`${edit.row}-${edit.column}`} className="flex items-center justify-between gap-2">
+                <span className="truncate" title={`"${edit.previous}" → "${edit.value}"`}>
+                  Row {edit.row + 1}, {headers[edit.column] ?? `column ${edit.column + 1}`}:{" "}
+                  <span className="line-through">{edit.previous}</span> → {edit.value}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0 shrink-0"
+                  title="Remove edit"
+                  onClick={() => onRemoveEdit(edit)}
+                >
+                  <XIcon className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        );
+      case "manageColumns":
+        return (
+          <ol className="pl-6 space-y-1 text-xs max-h-40 overflow-y-auto list-decimal list-inside">
+            {step.config.columns.length === 0 && (
+              <li className="list-none text-muted-foreground">Use "Manage Columns" above the data to lay out columns</li>
+            )}
+            {step.config.columns.map((column, index) => (
+              <li key={index} className={column.hidden ? "text-muted-foreground" : ""}>
+                {column.name}
+                {column.source === null && ` (new${column.value ? `: "${column.value}"` : ""})`}
+                {column.source !== null && step.config.from[column.source] !== column.name && (
+                  <span className="text-muted-foreground"> ← {step.config.from[column.source]}</span>
+                )}
+                {column.hidden && <EyeOffIcon className="inline h-3 w-3 ml-1" />}
+              </li>
+            ))}
+          </ol>
+        );
+    }
+  };
+
+  return (
+    <div
+      className={`border rounded-md p-3 space-y-2 bg-background ${isDragging ? "opacity-50" : ""}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              onDragStart();
+            }}
+            onDragEnd={onDragEnd}
+            className="cursor-grab text-muted-foreground"
+            title="Drag to reorder"
+          >
+            <GripVerticalIcon className="h-4 w-4" />
+          </span>
+          <Icon className="h-4 w-4 text-primary" />
+          <Label htmlFor={`step-${step.id}`}>{stepLabel(step.type)}</Label>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Switch
+            id={`step-${step.id}`}
+            checked={step.enabled}
+            onCheckedChange={(enabled) => onChange({ ...step, enabled })}
+          />
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onRemove} title="Remove step">
+            <XIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {step.enabled && renderConfig()}
+
+      <div className="flex items-center justify-between pl-6 text-xs text-muted-foreground">
+        <span>
+          {result
+            ? `${result.rowsBefore} → ${result.rowsAfter} rows` +
+              (result.cellsChanged > 0 ? ` • ${result.cellsChanged} cells changed` : "")
+            : step.enabled
+              ? "Not run yet"
+              : "Skipped"}
+        </span>
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onPreview}>
+          <EyeIcon className="h-3 w-3 mr-1" />
+          Preview after this step
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LONG_ROW_REPAIRS,
+  LongRowRepair,
+  RaggedRowOptions,
+  SHORT_ROW_REPAIRS,
+  ShortRowRepair,
+  describeRaggedRows,
+  summarizeRaggedRows,
+} from "@data-refine/core";
+
+interface RaggedRowOptionsControlProps {
+  id: string;
+  config: RaggedRowOptions;
+  onChange: (config: RaggedRowOptions) => void;
+  /** Data entering the step, whose ragged rows are counted */
+  data: string[][];
+  columnCount: number;
+}
+
+export function RaggedRowOptionsControl({ id, config, onChange, data, columnCount }: RaggedRowOptionsControlProps) {
+  const summary = useMemo(() => summarizeRaggedRows(data, columnCount), [data, columnCount]);
+
+  return (
+    <div className="space-y-2 pl-6">
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-short`} className="text-xs text-muted-foreground">
+          Rows with missing cells
+        </Label>
+        <Select
+          value={config.shortRows}
+          onValueChange={(shortRows) => onChange({ ...config, shortRows: shortRows as ShortRowRepair })}
+        >
+          <SelectTrigger id={`${id}-short`} className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHORT_ROW_REPAIRS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-long`} className="text-xs text-muted-foreground">
+          Rows with extra cells
+        </Label>
+        <Select
+          value={config.longRows}
+          onValueChange={(longRows) => onChange({ ...config, longRows: longRows as LongRowRepair })}
+        >
+          <SelectTrigger id={`${id}-long`} className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LONG_ROW_REPAIRS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {config.longRows === "mergeOverflow" && (
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <Label htmlFor={`${id}-separator`} className="text-xs">Join merged cells with</Label>
+          <Input
+            id={`${id}-separator`}
+            className="h-7 w-16 text-xs font-mono"
+            value={config.separator}
+            onChange={(e) => onChange({ ...config, separator: e.target.value })}
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {summary.rows.length > 0
+          ? `${describeRaggedRows(summary)} (expected ${columnCount} cells)`
+          : "Every row has one cell per column"}
+        {config.shortRows === "quarantine" || config.longRows === "quarantine"
+          ? "; quarantined rows are listed in the change report"
+          : ""}
+      </p>
+    </div>
+  );
+}
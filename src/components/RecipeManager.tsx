@@ -0,0 +1,225 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { BookOpenIcon, SaveIcon, Trash2Icon, UploadIcon } from "lucide-react";
+import { useRecipeLibrary } from "@/hooks/use-recipe-library";
+import {
+  ColumnType,
+  PipelineStep,
+  Recipe,
+  RecipeIssue,
+  createRecipe,
+  parseRecipe,
+  recipeToPipeline,
+  serializeRecipe,
+  validateRecipe,
+} from "@data-refine/core";
+import { downloadBlob } from "@/utils/downloadUtils";
+
+interface RecipeManagerProps {
+  steps: PipelineStep[];
+  headers: string[];
+  typeOverrides: Record<string, ColumnType>;
+  /** Called with the recipe's steps, and its column types when it has any */
+  onLoad: (steps: PipelineStep[], typeOverrides?: Record<string, ColumnType>) => void;
+}
+
+export function RecipeManager({ steps, headers, typeOverrides, onLoad }: RecipeManagerProps) {
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  // A recipe waiting for confirmation because it refers to missing columns
+  const [pending, setPending] = useState<{ recipe: Recipe; issues: RecipeIssue[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { recipes, save, remove } = useRecipeLibrary();
+  const { toast } = useToast();
+
+  const apply = (recipe: Recipe) => {
+    onLoad(recipeToPipeline(recipe), recipe.typeOverrides);
+    setPending(null);
+
+    toast({
+      title: "Recipe loaded",
+      description: `"${recipe.name}" with ${recipe.steps.length} steps`,
+    });
+  };
+
+  const load = (recipe: Recipe) => {
+    const issues = validateRecipe(recipe, headers);
+    if (issues.length > 0) {
+      setPending({ recipe, issues });
+    } else {
+      apply(recipe);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      load(parseRecipe(await file.text()));
+    } catch (error) {
+      toast({
+        title: "Error importing recipe",
+        description: String(error) || "The file is not a valid recipe",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveToLibrary = () => {
+    save(createRecipe(name.trim(), steps, typeOverrides));
+    setIsSaveOpen(false);
+
+    toast({
+      title: "Recipe saved",
+      description: `"${name.trim()}" was added to your library`,
+    });
+  };
+
+  const download = () => {
+    const recipe = createRecipe(name.trim(), steps, typeOverrides);
+    const fileName = `${recipe.name.replace(/[^\w-]+/g, "-").toLowerCase() || "recipe"}.recipe.json`;
+    downloadBlob(new Blob([serializeRecipe(recipe)], { type: "application/json" }), fileName);
+    setIsSaveOpen(false);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Button variant="outline" size="sm" className="flex-1" onClick={() => setIsSaveOpen(true)}>
+        <SaveIcon className="h-4 w-4 mr-2" />
+        Save Recipe
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex-1">
+            <BookOpenIcon className="h-4 w-4 mr-2" />
+            Load Recipe
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Library</DropdownMenuLabel>
+          {recipes.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No saved recipes yet</p>
+          )}
+          {recipes.map((recipe) => (
+            <DropdownMenuItem key={recipe.name} onSelect={() => load(recipe)}>
+              <span className="flex-1 truncate">{recipe.name}</span>
+              <span className="text-xs text-muted-foreground mr-2">{recipe.steps.length} steps</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                title="Delete recipe"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  remove(recipe.name);
+                }}
+              >
+                <Trash2Icon className="h-3 w-3" />
+              </Button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <UploadIcon className="h-4 w-4 mr-2" />
+            Import from file...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleImport}
+      />
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save cleaning recipe</DialogTitle>
+            <DialogDescription>
+              Saves the {steps.length} pipeline steps and their settings, and any column types you set, not
+              the data
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="recipe-name">Recipe name</Label>
+            <Input
+              id="recipe-name"
+              value={name}
+              placeholder="Weekly export cleanup"
+              onChange={(e) => setName(e.target.value)}
+            />
+            {recipes.some((recipe) => recipe.name === name.trim()) && (
+              <p className="text-xs text-muted-foreground">Saving replaces the recipe with this name</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={download} disabled={name.trim() === ""}>
+              Download JSON
+            </Button>
+            <Button onClick={saveToLibrary} disabled={name.trim() === ""}>
+              Save to Library
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Recipe does not match this file</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pending?.recipe.name}" refers to columns this file does not have. Steps using them will skip
+              those columns.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="text-sm list-disc pl-5 space-y-1 max-h-48 overflow-y-auto">
+            {pending?.issues.map((issue, index) => (
+              <li key={index}>
+                Step {issue.stepIndex + 1} – {issue.message}
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pending && apply(pending.recipe)}>Load Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+
+interface RecordPreviewProps {
+  records: string[][];
+}
+
+/**
+ * Compact table of the first records of a file, with the header row in bold
+ */
+export function RecordPreview({ records }: RecordPreviewProps) {
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <Table>
+        <TableBody>
+          {records.map((record, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {record.map((cell, cellIndex) => (
+                <TableCell
+                  key={cellIndex}
+                  className={`py-2 whitespace-nowrap ${rowIndex === 0 ? "font-medium" : ""}`}
+                >
+                  {cell}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { inferSQLColumnTypes } from "@/utils/exportUtils";
+
+interface SQLExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  data: string[][];
+  headers: string[];
+  defaultTableName: string;
+  onExport: (tableName: string) => void;
+}
+
+export function SQLExportDialog({
+  open,
+  onOpenChange,
+  data,
+  headers,
+  defaultTableName,
+  onExport,
+}: SQLExportDialogProps) {
+  const [tableName, setTableName] = useState(defaultTableName);
+  const columnTypes = useMemo(() => (open ? inferSQLColumnTypes(data, headers) : []), [open, data, headers]);
+
+  useEffect(() => {
+    if (open) setTableName(defaultTableName);
+  }, [open, defaultTableName]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export SQL INSERT script</DialogTitle>
+          <DialogDescription>
+            Creates the table with the column types inferred from the data
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sql-table-name">Table name</Label>
+            <Input id="sql-table-name" value={tableName} onChange={(e) => setTableName(e.target.value)} />
+          </div>
+
+          <ScrollArea className="h-48 rounded-md border">
+            <ul className="text-sm p-3 space-y-1">
+              {headers.map((header, index) => (
+                <li key={index} className="flex justify-between">
+                  <span>{header}</span>
+                  <span className="font-mono text-muted-foreground">{columnTypes[index]}</span>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onExport(tableName.trim())} disabled={tableName.trim() === ""}>
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RotateCcwIcon } from "lucide-react";
+import { COLUMN_TYPE_OPTIONS, ColumnSchema, ColumnType } from "@data-refine/core";
+
+interface SchemaPanelProps {
+  headers: string[];
+  schema: ColumnSchema[];
+  /** Pass null to go back to the inferred type */
+  onTypeChange: (columnIndex: number, type: ColumnType | null) => void;
+}
+
+export function SchemaPanel({ headers, schema, onTypeChange }: SchemaPanelProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Schema</CardTitle>
+        <CardDescription>Inferred column types; change a type to override it</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ScrollArea className="h-[500px]">
+          <ul className="divide-y">
+            {headers.map((header, index) => {
+              const column = schema[index];
+              if (!column) return null;
+
+              return (
+                <li key={index} className="px-6 py-3 space-y-2">
+                  <div className="flex items-center justify-between space-x-2">
+                    <span className="text-sm font-medium truncate" title={header}>
+                      {header || <span className="italic text-muted-foreground">(unnamed)</span>}
+                    </span>
+                    {column.overridden ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => onTypeChange(index, null)}
+                      >
+                        <RotateCcwIcon className="h-3 w-3 mr-1" />
+                        Reset
+                      </Button>
+                    ) : (
+                      <Badge variant="secondary">{Math.round(column.confidence * 100)}%</Badge>
+                    )}
+                  </div>
+                  <Select value={column.type} onValueChange={(type) => onTypeChange(index, type as ColumnType)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLUMN_TYPE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {column.distinctCount} distinct • {column.emptyCount} empty
+                    {column.format && ` • ${column.format}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import { useMemo, useState } from "react";
+import type { WorkBook } from "xlsx";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RecordPreview } from "@/components/RecordPreview";
+import { isValidRange, listSheets, sheetToTable } from "@/utils/excelUtils";
+
+interface SheetPickerProps {
+  workbook: WorkBook;
+  onLoad: (data: string[][], headers: string[], sheetName: string, range: string) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export function SheetPicker({ workbook, onLoad }: SheetPickerProps) {
+  const sheets = useMemo(() => listSheets(workbook), [workbook]);
+  const [sheetName, setSheetName] = useState(
+    () => (sheets.find((sheet) => sheet.rows > 0) ?? sheets[0])?.name ?? ""
+  );
+  const [range, setRange] = useState("");
+
+  const sheet = sheets.find((info) => info.name === sheetName);
+  const rangeError = range.trim() !== "" && !isValidRange(range) ? "Use A1 notation, e.g. A1:F100" : null;
+
+  const preview = useMemo(() => {
+    if (!sheetName || rangeError) return null;
+    try {
+      const { data, headers } = sheetToTable(workbook, sheetName, range, PREVIEW_ROWS);
+      return { records: [headers, ...data], error: null };
+    } catch (error) {
+      return { records: [], error: String(error) };
+    }
+  }, [workbook, sheetName, range, rangeError]);
+
+  const load = () => {
+    const { data, headers } = sheetToTable(workbook, sheetName, range);
+    onLoad(data, headers, sheetName, range.trim() || sheet?.range || "");
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sheet-name">Sheet</Label>
+          <Select value={sheetName} onValueChange={setSheetName}>
+            <SelectTrigger id="sheet-name">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map((info) => (
+                <SelectItem key={info.name} value={info.name}>
+                  {info.name} ({info.rows} × {info.columns})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sheet-range">Cell range (optional)</Label>
+          <Input
+            id="sheet-range"
+            placeholder={sheet?.range || "A1:F100"}
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+          />
+          {rangeError && <p className="text-xs text-destructive">{rangeError}</p>}
+        </div>
+      </div>
+
+      {preview?.error && <p className="text-sm text-destructive">{preview.error}</p>}
+      {preview && !preview.error && preview.records[0].length > 0 && (
+        <RecordPreview records={preview.records} />
+      )}
+
+      <Button
+        className="w-full"
+        onClick={load}
+        disabled={!preview || !!preview.error || preview.records[0].length === 0}
+      >
+        Load Sheet
+      </Button>
+    </div>
+  );
+}
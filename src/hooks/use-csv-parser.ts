@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import type { CSVDialect, RaggedRowSummary } from "@data-refine/core"
+import type { ParseRequest, ParseResponse } from "@/workers/csvParser.worker"
+
+export interface ParseProgress {
+  bytesRead: number
+  totalBytes: number
+  rowsParsed: number
+  /** Projected total row count, extrapolated from the bytes read so far */
+  estimatedRows: number
+}
+
+export interface ParseResult {
+  data: string[][]
+  headers: string[]
+  /** Rows whose cell count differs from the headers */
+  ragged: RaggedRowSummary
+}
+
+/**
+ * Parse files in a background worker. The promise returned by `parseFile`
+ * resolves to null when the parse is cancelled.
+ */
+export function useCSVParser() {
+  const workerRef = useRef<Worker | null>(null)
+  const settleRef = useRef<((result: ParseResult | null) => void) | null>(null)
+  const [progress, setProgress] = useState<ParseProgress | null>(null)
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setProgress(null)
+  }, [])
+
+  const cancel = useCallback(() => {
+    stop()
+    settleRef.current?.(null)
+    settleRef.current = null
+  }, [stop])
+
+  const parseFile = useCallback(
+    (file: File, dialect: CSVDialect, encoding: string) => {
+      cancel()
+
+      return new Promise<ParseResult | null>((resolve, reject) => {
+        const worker = new Worker(new URL("../workers/csvParser.worker.ts", import.meta.url), {
+          type: "module",
+        })
+        workerRef.current = worker
+        settleRef.current = resolve
+        setProgress({ bytesRead: 0, totalBytes: file.size, rowsParsed: 0, estimatedRows: 0 })
+
+        worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+          const message = event.data
+          if (message.type === "progress") {
+            setProgress({
+              ...message,
+              estimatedRows: message.bytesRead > 0
+                ? Math.round((message.rowsParsed * message.totalBytes) / message.bytesRead)
+                : 0,
+            })
+            return
+          }
+
+          settleRef.current = null
+          stop()
+          if (message.type === "done") {
+            resolve({ data: message.data, headers: message.headers, ragged: message.ragged })
+          } else {
+            reject(new Error(message.message))
+          }
+        }
+
+        worker.onerror = (event) => {
+          settleRef.current = null
+          stop()
+          reject(new Error(event.message || "Failed to parse the uploaded file"))
+        }
+
+        worker.postMessage({ file, dialect, encoding } satisfies ParseRequest)
+      })
+    },
+    [cancel, stop]
+  )
+
+  useEffect(() => stop, [stop])
+
+  return { parseFile, cancel, progress, isParsing: progress !== null }
+}
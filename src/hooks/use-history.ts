@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from "react"
+
+export interface HistoryEntry<T> {
+  id: number
+  label: string
+  /** Short summary of what the operation changed, e.g. "12 rows removed" */
+  detail: string
+  state: T
+  timestamp: number
+}
+
+export type HistoryOperation<T> = Pick<HistoryEntry<T>, "label" | "detail" | "state">
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[]
+  /** Position of the current state in `entries` */
+  index: number
+}
+
+let nextEntryId = 1
+
+const toEntry = <T>(operation: HistoryOperation<T>): HistoryEntry<T> => ({
+  ...operation,
+  id: nextEntryId++,
+  timestamp: Date.now(),
+})
+
+/**
+ * Linear undo/redo history of a value. Pushing after an undo discards the
+ * undone entries, like a text editor.
+ */
+export function useHistory<T>(initial: HistoryOperation<T>) {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    entries: [toEntry(initial)],
+    index: 0,
+  }))
+
+  const reset = useCallback((operation: HistoryOperation<T>) => {
+    setHistory({ entries: [toEntry(operation)], index: 0 })
+  }, [])
+
+  const push = useCallback((...operations: HistoryOperation<T>[]) => {
+    if (operations.length === 0) return
+    setHistory(({ entries, index }) => {
+      const kept = entries.slice(0, index + 1)
+      const next = [...kept, ...operations.map(toEntry)]
+      return { entries: next, index: next.length - 1 }
+    })
+  }, [])
+
+  const jumpTo = useCallback((target: number) => {
+    setHistory((current) =>
+      target >= 0 && target < current.entries.length ? { ...current, index: target } : current
+    )
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory((current) => (current.index > 0 ? { ...current, index: current.index - 1 } : current))
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory((current) =>
+      current.index < current.entries.length - 1 ? { ...current, index: current.index + 1 } : current
+    )
+  }, [])
+
+  return {
+    entries: history.entries,
+    index: history.index,
+    current: history.entries[history.index].state,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    reset,
+    push,
+    jumpTo,
+    undo,
+    redo,
+  }
+}
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+/**
+ * Bind Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z or Ctrl+Y to redo, leaving
+ * the shortcuts alone while a text field has focus
+ */
+export function useUndoShortcuts(undo: () => void, redo: () => void, enabled = true) {
+  useEffect(() => {
+    if (!enabled) return
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditable(event.target)) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [undo, redo, enabled])
+}
@@ -0,0 +1,47 @@
+import { useCallback, useState } from "react"
+
+import { Recipe, parseRecipe, serializeRecipe } from "@data-refine/core"
+
+const STORAGE_KEY = "data-refine-studio:recipes"
+
+function readLibrary(): Recipe[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    if (!Array.isArray(stored)) return []
+    // Re-validate each recipe so a corrupted entry cannot break the library
+    return stored.flatMap((entry) => {
+      try {
+        return [parseRecipe(JSON.stringify(entry))]
+      } catch {
+        return []
+      }
+    })
+  } catch {
+    return []
+  }
+}
+
+function writeLibrary(recipes: Recipe[]) {
+  localStorage.setItem(STORAGE_KEY, `[${recipes.map(serializeRecipe).join(",")}]`)
+}
+
+/**
+ * Recipes saved in this browser's local storage, keyed by name
+ */
+export function useRecipeLibrary() {
+  const [recipes, setRecipes] = useState<Recipe[]>(readLibrary)
+
+  const save = useCallback((recipe: Recipe) => {
+    const next = [...readLibrary().filter(({ name }) => name !== recipe.name), recipe]
+    writeLibrary(next)
+    setRecipes(next)
+  }, [])
+
+  const remove = useCallback((name: string) => {
+    const next = readLibrary().filter((recipe) => recipe.name !== name)
+    writeLibrary(next)
+    setRecipes(next)
+  }, [])
+
+  return { recipes, save, remove }
+}
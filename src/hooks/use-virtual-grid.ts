@@ -0,0 +1,84 @@
+import { RefObject, useCallback, useEffect, useState } from "react"
+
+// Browsers stop growing elements at around 17-33 million pixels; taller content
+// is scrolled proportionally instead
+const MAX_SCROLL_HEIGHT = 10_000_000
+
+interface VirtualGridOptions {
+  rowCount: number
+  columnCount: number
+  rowHeight: number
+  columnWidth: number
+  /** Height of the sticky header above the rows */
+  headerHeight: number
+  /** Width of sticky columns left of the virtualized ones */
+  stickyWidth: number
+  /** Rows and columns rendered beyond each edge of the viewport */
+  overscan?: number
+}
+
+/**
+ * Row and column windowing for a scroll container with fixed-size cells: only
+ * the rows and columns in view (plus `overscan`) need to be rendered
+ */
+export function useVirtualGrid(
+  containerRef: RefObject<HTMLElement>,
+  { rowCount, columnCount, rowHeight, columnWidth, headerHeight, stickyWidth, overscan = 4 }: VirtualGridOptions
+) {
+  const [scroll, setScroll] = useState({ top: 0, left: 0 })
+  const [viewport, setViewport] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: container.clientWidth, height: container.clientHeight })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [containerRef])
+
+  const onScroll = useCallback(() => {
+    const container = containerRef.current
+    if (container) setScroll({ top: container.scrollTop, left: container.scrollLeft })
+  }, [containerRef])
+
+  const bodyHeight = Math.max(viewport.height - headerHeight, 0)
+  const contentHeight = rowCount * rowHeight
+  const scrollHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT)
+  // Content pixels per scrolled pixel; 1 unless the content is capped
+  const ratio = scrollHeight > bodyHeight ? (contentHeight - bodyHeight) / (scrollHeight - bodyHeight) : 1
+  const offset = scroll.top * ratio
+
+  const firstRow = Math.max(Math.floor(offset / rowHeight) - overscan, 0)
+  const lastRow = Math.min(Math.ceil((offset + bodyHeight) / rowHeight) + overscan, rowCount)
+
+  const bodyWidth = Math.max(viewport.width - stickyWidth, 0)
+  const firstColumn = Math.max(Math.floor(scroll.left / columnWidth) - overscan, 0)
+  const lastColumn = Math.min(Math.ceil((scroll.left + bodyWidth) / columnWidth) + overscan, columnCount)
+
+  /** Top of a row relative to the start of the rows */
+  const rowTop = (row: number) => row * rowHeight - offset + scroll.top
+
+  /** Scroll so that the row is in the middle of the view */
+  const scrollToRow = useCallback(
+    (row: number) => {
+      const container = containerRef.current
+      if (!container) return
+      const target = row * rowHeight - (bodyHeight - rowHeight) / 2
+      container.scrollTop = Math.max(target, 0) / ratio
+    },
+    [containerRef, rowHeight, bodyHeight, ratio]
+  )
+
+  return {
+    onScroll,
+    scrollHeight,
+    scrollWidth: stickyWidth + columnCount * columnWidth,
+    rows: { first: firstRow, last: lastRow },
+    columns: { first: firstColumn, last: lastColumn },
+    rowTop,
+    scrollToRow,
+  }
+}
@@ -1,47 +1,326 @@
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
-import { FileUpload } from "@/components/FileUpload";
+import { AlertTriangleIcon, Columns3Icon, FileDiffIcon } from "lucide-react";
+import { FileSource, FileUpload } from "@/components/FileUpload";
 import { DataTable } from "@/components/DataTable";
 import { CleaningOptions } from "@/components/CleaningOptions";
+import { ExportDialog } from "@/components/ExportDialog";
+import { ExportMenu } from "@/components/ExportMenu";
+import { SQLExportDialog } from "@/components/SQLExportDialog";
+import { SchemaPanel } from "@/components/SchemaPanel";
+import { FuzzyClusterReview } from "@/components/FuzzyClusterReview";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { ChangeReportDialog } from "@/components/ChangeReportDialog";
+import { ColumnManager } from "@/components/ColumnManager";
+import { useHistory, useUndoShortcuts } from "@/hooks/use-history";
 import { useToast } from "@/components/ui/use-toast";
-import { downloadCleanedCSV } from "@/utils/csvUtils";
+import {
+  CellEdit,
+  ColumnSchema,
+  ColumnSpec,
+  ColumnType,
+  CSVDialect,
+  PipelineStep,
+  ReportedChange,
+  StepResult,
+  addCellEdit,
+  applyTypeOverrides,
+  buildChangeReport,
+  createColumnsStep,
+  createEditStep,
+  createStep,
+  defaultPipeline,
+  describeDialect,
+  describeRaggedRows,
+  describeStepResult,
+  inferSchema,
+  removeCellEdit,
+  removeHiddenColumns,
+  runStep,
+  stepLabel,
+  summarizeRaggedRows,
+} from "@data-refine/core";
+import { downloadBlob, downloadCleanedCSV } from "@/utils/downloadUtils";
+import { EXPORT_FORMATS, ExportFormat, buildExportBlob } from "@/utils/exportUtils";
+
+interface DataState {
+  data: string[][];
+  headers: string[];
+  /** Inferred column types, following the columns as they are rearranged */
+  schema: ColumnSchema[];
+  /** Columns left out of exports */
+  hiddenColumns: string[];
+  /** Layout and edit steps the data already has, so running the pipeline again skips them */
+  appliedSteps: string[];
+  /** The operation that produced the data; absent for the uploaded file */
+  change?: ReportedChange;
+  /** What the operation added to the pipeline, taken out again when it is undone */
+  added?: { edit: CellEdit } | { step: PipelineStep };
+  /** An edit the operation took out of a "Manual edits" step, put back when it is undone */
+  removed?: { edit: CellEdit; stepId: string };
+}
+
+const EMPTY_STATE: DataState = { data: [], headers: [], schema: [], hiddenColumns: [], appliedSteps: [] };
+
+// The state after an operation; steps that rearrange the columns carry the new ones
+const nextState = (state: DataState, label: string, result: StepResult): DataState => ({
+  data: result.data,
+  headers: result.context?.headers ?? state.headers,
+  schema: result.context?.schema ?? state.schema,
+  hiddenColumns: result.context?.hiddenColumns ?? state.hiddenColumns,
+  appliedSteps: result.context?.appliedSteps ?? state.appliedSteps,
+  change: { label, result },
+});
+
+// The pipeline with the edits of one "Manual edits" step changed
+const updateEdits = (steps: PipelineStep[], stepId: string, update: (edits: CellEdit[]) => CellEdit[]) =>
+  steps.map((step) =>
+    step.id === stepId && step.type === "editCells" ? { ...step, config: { edits: update(step.config.edits) } } : step
+  );
 
 const Index = () => {
-  const [csvData, setCsvData] = useState<string[][]>([]);
-  const [originalData, setOriginalData] = useState<string[][]>([]);
-  const [headers, setHeaders] = useState<string[]>([]);
-  const [fileName, setFileName] = useState<string>("");
+  // Every state of the data since the upload; the first entry is the uploaded data
+  const history = useHistory<DataState>({ label: "No file", detail: "", state: EMPTY_STATE });
+  const { data: csvData, headers, schema: inferredSchema, hiddenColumns, appliedSteps } = history.current;
+  const originalData = history.entries[0].state.data;
+  const [steps, setSteps] = useState<PipelineStep[]>(defaultPipeline);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isColumnManagerOpen, setIsColumnManagerOpen] = useState(false);
+  const [source, setSource] = useState<FileSource | null>(null);
+  // Type overrides by header, so they follow columns that are moved
+  const [typeOverrides, setTypeOverrides] = useState<Record<string, ColumnType>>({});
   const [activeTab, setActiveTab] = useState("upload");
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isSQLExportOpen, setIsSQLExportOpen] = useState(false);
   const { toast } = useToast();
 
-  const handleFileUploaded = (data: string[][], headers: string[], name: string) => {
-    setCsvData(data);
-    setOriginalData(data);
-    setHeaders(headers);
-    setFileName(name);
+  const schema = useMemo<ColumnSchema[]>(
+    () => applyTypeOverrides(inferredSchema, headers, typeOverrides),
+    [inferredSchema, headers, typeOverrides]
+  );
+
+  // What the export formats write: the current data without its hidden columns
+  const exported = useMemo(
+    () => removeHiddenColumns(csvData, headers, hiddenColumns),
+    [csvData, headers, hiddenColumns]
+  );
+
+  // Rows whose cell count differs from the headers, until a step repairs them
+  const ragged = useMemo(() => summarizeRaggedRows(csvData, headers.length), [csvData, headers]);
+
+  const handleTypeChange = (columnIndex: number, type: ColumnType | null) => {
+    setTypeOverrides((overrides) => {
+      const { [headers[columnIndex]]: _, ...rest } = overrides;
+      return type ? { ...rest, [headers[columnIndex]]: type } : rest;
+    });
+  };
+
+  // Ids of the steps run on the data up to a point in the history; edits made
+  // there go right after them
+  const appliedStepIds = (index: number) =>
+    history.entries.slice(1, index + 1).flatMap(({ state }) => (state.change ? [state.change.result.stepId] : []));
+
+  // Moving through the history takes the pipeline along, so undone edits and
+  // layouts do not come back when the pipeline runs again
+  const goTo = (target: number) => {
+    if (target < 0 || target >= history.entries.length || target === history.index) return;
+    const isUndo = target < history.index;
+    const first = Math.min(target, history.index) + 1;
+    const passed = Array.from({ length: Math.abs(target - history.index) }, (_, offset) => first + offset);
+    if (isUndo) passed.reverse();
+
+    setSteps((current) =>
+      passed.reduce((steps, index) => {
+        const { added, removed, change } = history.entries[index].state;
+        if (removed) {
+          return updateEdits(steps, removed.stepId, (edits) =>
+            isUndo ? [...edits, removed.edit] : edits.filter((edit) => edit !== removed.edit)
+          );
+        }
+        if (!added) return steps;
+        if ("edit" in added) {
+          return isUndo
+            ? removeCellEdit(steps, added.edit)
+            : addCellEdit(steps, added.edit, appliedStepIds(index - 1), change?.result.stepId);
+        }
+        const others = steps.filter((step) => step.id !== added.step.id);
+        return isUndo ? others : [...others, added.step];
+      }, current)
+    );
+    history.jumpTo(target);
+  };
+  const undo = () => goTo(history.index - 1);
+  const redo = () => goTo(history.index + 1);
+
+  useUndoShortcuts(undo, redo, originalData.length > 0);
+
+  const handleFileUploaded = (data: string[][], headers: string[], source: FileSource) => {
+    // Types are inferred from the uploaded data, which is what cleaning starts from
+    history.reset({
+      label: "File loaded",
+      detail: `${data.length} rows`,
+      state: { data, headers, schema: inferSchema(data, headers), hiddenColumns: [], appliedSteps: [] },
+    });
+    setSource(source);
+    setTypeOverrides({});
     setActiveTab("preview");
     
     toast({
       title: "File uploaded successfully",
-      description: `${name} with ${data.length} rows and ${headers.length} columns`,
+      description:
+        `${source.sheetName ? `${source.fileName} (${source.sheetName})` : source.fileName} with ${data.length} rows and ${headers.length} columns` +
+        (source.ragged?.rows.length ? `; ${describeRaggedRows(source.ragged)}` : ""),
     });
   };
 
-  const handleDataCleaned = (cleanedData: string[][]) => {
-    setCsvData(cleanedData);
-    
-    toast({
-      title: "Data cleaned successfully",
-      description: `${cleanedData.length} rows after cleaning`,
+  // Ragged rows are best repaired before anything else looks at the columns
+  const handleAddRaggedRepair = () => {
+    if (!steps.some((step) => step.type === "repairRaggedRows")) {
+      const step = createStep("repairRaggedRows");
+      // Overflow cells are joined back with the delimiter that split them
+      if (step.type === "repairRaggedRows" && source?.format === "csv") step.config.separator = source.dialect.delimiter;
+      setSteps([step, ...steps]);
+    }
+    setActiveTab("clean");
+  };
+
+  // Each pipeline step becomes its own history entry, so any intermediate state can be restored
+  const handleStepsApplied = (applied: { step: PipelineStep; result: StepResult }[]) => {
+    let state = history.current;
+    history.push(
+      ...applied.map(({ step, result }) => {
+        state = nextState(state, stepLabel(step.type), result);
+        return { label: stepLabel(step.type), detail: describeStepResult(result), state };
+      })
+    );
+  };
+
+  const handleClustersApplied = (result: StepResult, detail: string) => {
+    history.push({ label: "Fuzzy clusters", detail, state: nextState(history.current, "Fuzzy clusters", result) });
+  };
+
+  // Edits apply at once and join the pipeline, so replaying it keeps them
+  const handleCellEdit = (row: number, column: number, value: string) => {
+    const previous = csvData[row][column] ?? "";
+    if (value === previous) return;
+
+    const edit: CellEdit = { row, column, previous, value };
+    const nextSteps = addCellEdit(steps, edit, appliedStepIds(history.index));
+    // The edit runs as the "Manual edits" step it joined, which marks that step as applied
+    const { id } = nextSteps.find((step) => !steps.includes(step));
+    const result = runStep({ ...createEditStep([edit]), id }, csvData, {
+      headers,
+      schema: inferredSchema,
+      hiddenColumns,
+      appliedSteps: appliedSteps.filter((applied) => applied !== id),
+    });
+    history.push({
+      label: "Manual edit",
+      detail: `Row ${row + 1}, ${headers[column]}: "${previous}" → "${value}"`,
+      state: { ...nextState(history.current, "Manual edit", result), added: { edit } },
+    });
+    setSteps(nextSteps);
+  };
+
+  // Removing an edit also puts its cell back, when the cell can still be found
+  // in the current data and nothing has changed it since
+  const handleRemoveEdit = (stepId: string, edit: CellEdit) => {
+    const nextSteps = updateEdits(steps, stepId, (edits) => edits.filter((other) => other !== edit));
+    // The latest history entry that made the edit
+    const madeBy = ({ added, change }: DataState) =>
+      change?.result.stepId === stepId &&
+      added !== undefined &&
+      "edit" in added &&
+      added.edit.row === edit.row &&
+      added.edit.column === edit.column &&
+      added.edit.value === edit.value;
+    let made = history.index;
+    while (made > 0 && !madeBy(history.entries[made].state)) made--;
+    if (made === 0) {
+      // Not applied yet, so the data never had it
+      setSteps(nextSteps);
+      return;
+    }
+
+    // Follow the cell through the operations since the edit
+    let row = edit.row;
+    let column = edit.column;
+    for (const { state } of history.entries.slice(made + 1, history.index + 1)) {
+      if (!state.change || row < 0 || column < 0) continue;
+      const { result } = state.change;
+      row = result.sourceRows.indexOf(row);
+      const layout =
+        state.added && "step" in state.added ? state.added.step : steps.find((step) => step.id === result.stepId);
+      if (result.context && layout?.type === "manageColumns") {
+        column = layout.config.columns.findIndex((spec) => spec.source === column);
+      }
+    }
+
+    setSteps(nextSteps);
+    if (row < 0 || column < 0 || csvData[row]?.[column] !== edit.value) {
+      toast({
+        title: "Edit removed from the pipeline",
+        description: "The cell was removed or changed since the edit, so it keeps its current value",
+      });
+      return;
+    }
+    const revert: CellEdit = { row, column, previous: edit.value, value: edit.previous };
+    const result = runStep({ ...createEditStep([revert]), id: stepId }, csvData, {
+      headers,
+      schema: inferredSchema,
+      hiddenColumns,
+      appliedSteps: appliedSteps.filter((applied) => applied !== stepId),
+    });
+    history.push({
+      label: "Manual edit removed",
+      detail: `Row ${row + 1}, ${headers[column]}: "${edit.value}" → "${edit.previous}"`,
+      state: { ...nextState(history.current, "Manual edit removed", result), removed: { edit, stepId } },
+    });
+  };
+
+  // Column changes also join the pipeline, as a step laying out the columns
+  const handleColumnsApplied = (columns: ColumnSpec[]) => {
+    const step = createColumnsStep(headers, columns);
+    const result = runStep(step, csvData, { headers, schema, hiddenColumns, appliedSteps });
+    history.push({
+      label: "Manage columns",
+      detail: describeStepResult(result),
+      state: { ...nextState(history.current, "Manage columns", result), added: { step } },
     });
+    setSteps((current) => [...current, step]);
   };
 
-  const handleDownload = () => {
-    if (csvData.length > 0 && headers.length > 0) {
-      downloadCleanedCSV(csvData, headers, fileName.replace('.csv', '-cleaned.csv'));
+  // Everything done since the upload, up to the current point in the history
+  const report = useMemo(
+    () =>
+      isReportOpen
+        ? buildChangeReport(
+            originalData,
+            history.entries[0].state.headers,
+            history.entries.slice(1, history.index + 1).flatMap(({ state }) => (state.change ? [state.change] : []))
+          )
+        : null,
+    [isReportOpen, originalData, history.entries, history.index]
+  );
+
+  const baseName = source ? source.fileName.replace(/\.[^.]+$/, "") : "data";
+
+  const handleDownload = (exportDialect: CSVDialect, exportEncoding: string) => {
+    if (source && exported.data.length > 0 && exported.headers.length > 0) {
+      // Delimited text files keep their extension, other formats are exported as CSV
+      const extension = source.format === "csv" ? "$1" : ".csv";
+      downloadCleanedCSV(
+        exported.data,
+        exported.headers,
+        source.fileName.replace(/(\.[^.]+)?$/, `-cleaned${extension}`),
+        exportDialect,
+        exportEncoding
+      );
+      setIsExportOpen(false);
       
       toast({
         title: "File downloaded",
@@ -50,6 +329,38 @@ const Index = () => {
     }
   };
 
+  const handleExport = async (format: Exclude<ExportFormat, "csv">, tableName?: string) => {
+    if (exported.data.length === 0 || exported.headers.length === 0) return;
+
+    const { label, extension } = EXPORT_FORMATS.find(({ value }) => value === format)!;
+    try {
+      const blob = await buildExportBlob(format, exported.data, exported.headers, { tableName });
+      downloadBlob(blob, `${baseName}-cleaned${extension}`);
+      setIsSQLExportOpen(false);
+
+      toast({
+        title: "File downloaded",
+        description: `Your cleaned ${label} file is ready`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error exporting data",
+        description: String(error) || `Failed to export the data as ${label}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportSelect = (format: ExportFormat) => {
+    if (format === "csv") {
+      setIsExportOpen(true);
+    } else if (format === "sql") {
+      setIsSQLExportOpen(true);
+    } else {
+      handleExport(format);
+    }
+  };
+
   return (
     <div className="container mx-auto py-8 px-4 max-w-7xl">
       <div className="space-y-4">
@@ -65,8 +376,8 @@ const Index = () => {
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
           <TabsList>
             <TabsTrigger value="upload">Upload</TabsTrigger>
-            <TabsTrigger value="preview" disabled={csvData.length === 0}>Preview</TabsTrigger>
-            <TabsTrigger value="clean" disabled={csvData.length === 0}>Clean</TabsTrigger>
+            <TabsTrigger value="preview" disabled={originalData.length === 0}>Preview</TabsTrigger>
+            <TabsTrigger value="clean" disabled={originalData.length === 0}>Clean</TabsTrigger>
           </TabsList>
           
           <TabsContent value="upload" className="space-y-4">
@@ -74,52 +385,158 @@ const Index = () => {
           </TabsContent>
           
           <TabsContent value="preview" className="space-y-4">
-            {csvData.length > 0 && (
+            {originalData.length > 0 && (
               <>
                 <div className="flex items-center justify-between">
                   <div>
-                    <h2 className="text-xl font-semibold">{fileName}</h2>
+                    <h2 className="text-xl font-semibold">{source?.fileName}</h2>
                     <p className="text-sm text-muted-foreground">
-                      {csvData.length} rows • {headers.length} columns
+                      {csvData.length} rows • {headers.length} columns •{" "}
+                      {source?.format === "excel" && `Sheet ${source.sheetName} (${source.range})`}
+                      {source?.format === "json" &&
+                        `JSON • arrays ${source.arrayMode === "explode" ? "exploded" : "kept as JSON"}`}
+                      {source?.format === "csv" &&
+                        `${describeDialect(source.dialect)} • ${source.encoding.toUpperCase()}`}
                     </p>
                   </div>
-                  <Button variant="outline" onClick={() => setActiveTab("clean")}>
-                    Proceed to Cleaning
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" onClick={() => setIsColumnManagerOpen(true)}>
+                      <Columns3Icon className="h-4 w-4 mr-2" />
+                      Manage Columns
+                    </Button>
+                    <Button variant="outline" onClick={() => setActiveTab("clean")}>
+                      Proceed to Cleaning
+                    </Button>
+                  </div>
+                </div>
+                {ragged.rows.length > 0 && (
+                  <Alert>
+                    <AlertTriangleIcon className="h-4 w-4" />
+                    <AlertTitle>Ragged rows</AlertTitle>
+                    <AlertDescription className="flex items-center justify-between gap-4">
+                      <span>
+                        {describeRaggedRows(ragged)}, out of {csvData.length} rows with {headers.length} columns.
+                        They are flagged in the table and exported as they are until repaired.
+                      </span>
+                      <Button variant="outline" size="sm" onClick={handleAddRaggedRepair}>
+                        Add Repair Step
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                  <div className="lg:col-span-3">
+                    <DataTable
+                      data={csvData}
+                      headers={headers}
+                      schema={schema}
+                      hiddenColumns={hiddenColumns}
+                      onCellEdit={handleCellEdit}
+                    />
+                  </div>
+                  <SchemaPanel headers={headers} schema={schema} onTypeChange={handleTypeChange} />
                 </div>
-                <DataTable data={csvData} headers={headers} />
               </>
             )}
           </TabsContent>
           
           <TabsContent value="clean" className="space-y-4">
-            {csvData.length > 0 && (
+            {originalData.length > 0 && (
               <>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                   <div className="md:col-span-1 space-y-6">
                     <div>
                       <h2 className="text-xl font-semibold mb-2">Cleaning Options</h2>
                       <CleaningOptions 
-                        data={originalData} 
-                        headers={headers} 
-                        onDataCleaned={handleDataCleaned}
+                        data={csvData}
+                        headers={headers}
+                        schema={schema}
+                        hiddenColumns={hiddenColumns}
+                        appliedSteps={appliedSteps}
+                        steps={steps}
+                        onStepsChange={setSteps}
+                        onRemoveEdit={handleRemoveEdit}
+                        onStepsApplied={handleStepsApplied}
+                        typeOverrides={typeOverrides}
+                        onTypeOverridesChange={setTypeOverrides}
                       />
                     </div>
+                    <FuzzyClusterReview
+                      data={csvData}
+                      headers={headers}
+                      schema={schema}
+                      onApply={handleClustersApplied}
+                    />
                     <div className="space-y-2">
-                      <Button className="w-full" onClick={handleDownload}>
-                        Download Cleaned CSV
-                      </Button>
+                      <ExportMenu onSelect={handleExportSelect} />
+                      {source && (
+                        <ExportDialog
+                          open={isExportOpen}
+                          onOpenChange={setIsExportOpen}
+                          dialect={source.dialect}
+                          encoding={source.encoding}
+                          onExport={handleDownload}
+                        />
+                      )}
+                      <SQLExportDialog
+                        open={isSQLExportOpen}
+                        onOpenChange={setIsSQLExportOpen}
+                        data={exported.data}
+                        headers={exported.headers}
+                        defaultTableName={baseName.toLowerCase().replace(/[^a-z0-9_]+/g, "_")}
+                        onExport={(tableName) => handleExport("sql", tableName)}
+                      />
                     </div>
                   </div>
                   <div className="md:col-span-2">
-                    <h2 className="text-xl font-semibold mb-2">Data Preview</h2>
-                    <DataTable data={csvData} headers={headers} />
+                    <div className="flex items-center justify-between mb-2">
+                      <h2 className="text-xl font-semibold">Data Preview</h2>
+                      <Button variant="outline" size="sm" onClick={() => setIsColumnManagerOpen(true)}>
+                        <Columns3Icon className="h-4 w-4 mr-2" />
+                        Manage Columns
+                      </Button>
+                    </div>
+                    <DataTable
+                      data={csvData}
+                      headers={headers}
+                      schema={schema}
+                      hiddenColumns={hiddenColumns}
+                      onCellEdit={handleCellEdit}
+                    />
+                  </div>
+                  <div className="md:col-span-1">
+                    <h2 className="text-xl font-semibold mb-2">Operations</h2>
+                    <HistoryPanel
+                      entries={history.entries}
+                      index={history.index}
+                      onJump={goTo}
+                      onUndo={undo}
+                      onRedo={redo}
+                    />
+                    <Button
+                      variant="outline"
+                      className="w-full mt-4"
+                      onClick={() => setIsReportOpen(true)}
+                      disabled={history.index === 0}
+                    >
+                      <FileDiffIcon className="h-4 w-4 mr-2" />
+                      View Changes
+                    </Button>
+                    <ChangeReportDialog report={report} onClose={() => setIsReportOpen(false)} />
                   </div>
                 </div>
               </>
             )}
           </TabsContent>
         </Tabs>
+
+        <ColumnManager
+          open={isColumnManagerOpen}
+          onOpenChange={setIsColumnManagerOpen}
+          headers={headers}
+          hiddenColumns={hiddenColumns}
+          onApply={handleColumnsApplied}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,45 @@
+/**
+ * Browser downloads of exported data.
+ */
+
+import { CSVDialect, DEFAULT_DIALECT, encodeText, serializeCSV } from '@data-refine/core';
+
+/**
+ * Trigger a browser download of a blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  // Create a download link
+  const link = document.createElement('a');
+  
+  // Set the download link attributes
+  link.href = URL.createObjectURL(blob);
+  link.setAttribute('download', fileName);
+  
+  // Append the link to the document
+  document.body.appendChild(link);
+  
+  // Trigger the download
+  link.click();
+  
+  // Clean up
+  document.body.removeChild(link);
+}
+
+/**
+ * Download the cleaned CSV data as a file
+ */
+export function downloadCleanedCSV(
+  data: string[][],
+  headers: string[],
+  fileName: string,
+  dialect: CSVDialect = DEFAULT_DIALECT,
+  encoding = 'utf-8'
+): void {
+  // Create CSV content
+  const csvContent = serializeCSV(data, headers, dialect);
+  
+  // Create a Blob with the CSV content in the requested encoding
+  const blob = new Blob([encodeText(csvContent, encoding)], { type: `text/csv;charset=${encoding};` });
+  
+  downloadBlob(blob, fileName);
+}
@@ -0,0 +1,140 @@
+/**
+ * Excel workbook (.xlsx/.xls) import, converting sheets into the same
+ * headers + string rows model used for CSV files.
+ */
+
+import type { CellObject, WorkBook } from 'xlsx';
+
+type XLSXModule = typeof import('xlsx');
+
+// SheetJS makes up most of the bundle, so it is only fetched for Excel files
+let XLSX: XLSXModule | null = null;
+
+/**
+ * Load SheetJS, once
+ */
+export async function loadXLSX(): Promise<XLSXModule> {
+  XLSX ??= await import('xlsx');
+  return XLSX;
+}
+
+/**
+ * The loaded SheetJS module; workbooks only exist once it has been loaded
+ */
+function xlsx(): XLSXModule {
+  if (!XLSX) throw new Error('The Excel reader has not been loaded');
+  return XLSX;
+}
+
+export interface SheetInfo {
+  name: string;
+  /** Used range in A1 notation, e.g. "A1:F120" */
+  range: string;
+  rows: number;
+  columns: number;
+}
+
+const RANGE_PATTERN = /^[A-Z]{1,3}[1-9]\d*:[A-Z]{1,3}[1-9]\d*$/i;
+
+/**
+ * Read a workbook from the raw bytes of an .xlsx or .xls file
+ */
+export async function readWorkbook(buffer: ArrayBuffer): Promise<WorkBook> {
+  return (await loadXLSX()).read(buffer, { type: 'array', cellDates: true });
+}
+
+/**
+ * List the sheets of a workbook with their used ranges
+ */
+export function listSheets(workbook: WorkBook): SheetInfo[] {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]['!ref'];
+    if (!ref) {
+      return { name, range: '', rows: 0, columns: 0 };
+    }
+
+    const { s, e } = xlsx().utils.decode_range(ref);
+    return { name, range: ref, rows: e.r - s.r + 1, columns: e.c - s.c + 1 };
+  });
+}
+
+/**
+ * Whether a string is a cell range in A1 notation, e.g. "B2:F100"
+ */
+export function isValidRange(range: string): boolean {
+  return RANGE_PATTERN.test(range.trim());
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Convert a cell to text: dates become ISO 8601 (with the time only when it is
+ * not midnight), numbers and booleans keep their raw value rather than the
+ * display format, and everything else uses the formatted text.
+ */
+function cellToString(cell: CellObject | undefined): string {
+  if (!cell || cell.t === 'z' || cell.v === undefined || cell.v === null) return '';
+
+  if (cell.t === 'd' && cell.v instanceof Date) {
+    const date = cell.v;
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0;
+    return hasTime
+      ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+      : day;
+  }
+
+  if (cell.t === 'n' || cell.t === 'b') return String(cell.v);
+
+  if (cell.t === 'e') return cell.w ?? '';
+
+  return cell.w ?? String(cell.v);
+}
+
+/**
+ * Extract a sheet (or a range of it) as headers and data rows. The first row
+ * of the range holds the headers; rows where every cell is empty are skipped.
+ * `maxRows` limits the number of data rows read, for previews.
+ */
+export function sheetToTable(
+  workbook: WorkBook,
+  sheetName: string,
+  range?: string,
+  maxRows = Infinity
+): { data: string[][], headers: string[] } {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+
+  const ref = range?.trim() || sheet['!ref'];
+  if (!ref) {
+    return { data: [], headers: [] };
+  }
+  if (!isValidRange(ref) && ref !== sheet['!ref']) {
+    throw new Error(`Invalid cell range "${ref}", expected e.g. A1:F100`);
+  }
+
+  const { utils } = xlsx();
+  const { s, e } = utils.decode_range(ref);
+  const rows: string[][] = [];
+
+  for (let r = s.r; r <= e.r && rows.length <= maxRows; r++) {
+    const row: string[] = [];
+    for (let c = s.c; c <= e.c; c++) {
+      row.push(cellToString(sheet[utils.encode_cell({ r, c })]));
+    }
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row);
+    }
+  }
+
+  if (rows.length === 0) {
+    return { data: [], headers: [] };
+  }
+
+  return {
+    headers: rows[0].map(header => header.trim()),
+    data: rows.slice(1),
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Serializers for exporting the cleaned data in formats other than CSV.
+ */
+
+import { loadXLSX } from './excelUtils';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import type { ColumnSource } from 'hyparquet-writer';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson' | 'parquet' | 'markdown' | 'sql';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: '.csv', mimeType: 'text/csv' },
+  { value: 'xlsx', label: 'Excel (XLSX)', extension: '.xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'json', label: 'JSON', extension: '.json', mimeType: 'application/json' },
+  { value: 'ndjson', label: 'NDJSON', extension: '.ndjson', mimeType: 'application/x-ndjson' },
+  { value: 'parquet', label: 'Parquet', extension: '.parquet', mimeType: 'application/vnd.apache.parquet' },
+  { value: 'markdown', label: 'Markdown table', extension: '.md', mimeType: 'text/markdown' },
+  { value: 'sql', label: 'SQL INSERT script', extension: '.sql', mimeType: 'application/sql' },
+];
+
+export type SQLColumnType = 'INTEGER' | 'DECIMAL' | 'BOOLEAN' | 'DATE' | 'TIMESTAMP' | 'TEXT';
+
+const SQL_TYPE_PATTERNS: { type: SQLColumnType; pattern: RegExp }[] = [
+  // Leading zeros (zip codes, IDs) are kept as text; up to 18 digits, so
+  // every value fits a 64-bit integer and longer ones count as decimals
+  { type: 'INTEGER', pattern: /^[+-]?(0|[1-9]\d{0,17})$/ },
+  { type: 'DECIMAL', pattern: /^[+-]?((0|[1-9]\d*)(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/ },
+  { type: 'BOOLEAN', pattern: /^(true|false)$/i },
+  { type: 'DATE', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+  { type: 'TIMESTAMP', pattern: /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/ },
+];
+
+/**
+ * Infer a SQL column type for each column: the first type whose pattern
+ * matches every non-empty cell, falling back to TEXT
+ */
+export function inferSQLColumnTypes(data: string[][], headers: string[]): SQLColumnType[] {
+  return headers.map((_, columnIndex) => {
+    const values = data
+      .map(row => (row[columnIndex] ?? '').trim())
+      .filter(value => value !== '');
+
+    if (values.length === 0) return 'TEXT';
+
+    const match = SQL_TYPE_PATTERNS.find(({ pattern }) => values.every(value => pattern.test(value)));
+    return match ? match.type : 'TEXT';
+  });
+}
+
+/**
+ * Convert rows into objects keyed by header
+ */
+function toObjects(data: string[][], headers: string[]): Record<string, string>[] {
+  return data.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ''])));
+}
+
+/**
+ * JSON array of objects keyed by header
+ */
+export function toJSON(data: string[][], headers: string[]): string {
+  return JSON.stringify(toObjects(data, headers), null, 2);
+}
+
+/**
+ * Newline-delimited JSON, one object per row
+ */
+export function toNDJSON(data: string[][], headers: string[]): string {
+  return toObjects(data, headers).map(record => JSON.stringify(record)).join('\n') + '\n';
+}
+
+/**
+ * GitHub-flavoured Markdown table. Pipes are escaped and line breaks inside
+ * cells become <br> so each row stays on one line.
+ */
+export function toMarkdown(data: string[][], headers: string[]): string {
+  const escape = (cell: string) => (cell ?? '').replace(/\|/g, '\\|').replace(/\r\n|\r|\n/g, '<br>');
+  const line = (cells: string[]) => `| ${cells.map(escape).join(' | ')} |`;
+
+  return [
+    line(headers),
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...data.map(row => line(headers.map((_, index) => row[index] ?? ''))),
+  ].join('\n') + '\n';
+}
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Format a cell as a SQL literal for its column type; empty cells are NULL
+ */
+function sqlLiteral(value: string, type: SQLColumnType): string {
+  const cell = (value ?? '').trim();
+  if (cell === '') return 'NULL';
+
+  switch (type) {
+    case 'INTEGER':
+    case 'DECIMAL':
+      return cell;
+    case 'BOOLEAN':
+      return cell.toLowerCase() === 'true' ? 'TRUE' : 'FALSE';
+    default:
+      return `'${value.replace(/'/g, "''")}'`;
+  }
+}
+
+/**
+ * SQL script with a CREATE TABLE statement using the inferred column types,
+ * followed by one INSERT statement per row
+ */
+export function toSQLInserts(
+  data: string[][],
+  headers: string[],
+  tableName: string,
+  columnTypes: SQLColumnType[] = inferSQLColumnTypes(data, headers)
+): string {
+  const table = quoteIdentifier(tableName);
+  const columns = headers.map(quoteIdentifier).join(', ');
+
+  const createTable = [
+    `CREATE TABLE ${table} (`,
+    headers.map((header, index) => `  ${quoteIdentifier(header)} ${columnTypes[index]}`).join(',\n'),
+    ');',
+  ].join('\n');
+
+  const inserts = data.map(row => {
+    const values = headers.map((_, index) => sqlLiteral(row[index] ?? '', columnTypes[index]));
+    return `INSERT INTO ${table} (${columns}) VALUES (${values.join(', ')});`;
+  });
+
+  return [createTable, '', ...inserts].join('\n') + '\n';
+}
+
+/**
+ * Excel workbook with a single sheet; every cell is written as text so values
+ * such as leading-zero IDs survive unchanged
+ */
+export async function toXLSX(data: string[][], headers: string[], sheetName = 'Data'): Promise<ArrayBuffer> {
+  const XLSX = await loadXLSX();
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([headers, ...data]), sheetName);
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+}
+
+/**
+ * Parquet file with typed columns based on the inferred SQL types; empty
+ * cells are written as nulls
+ */
+export function toParquet(
+  data: string[][],
+  headers: string[],
+  columnTypes: SQLColumnType[] = inferSQLColumnTypes(data, headers)
+): ArrayBuffer {
+  const columnData: ColumnSource[] = headers.map((name, index) => {
+    const cells = data.map(row => (row[index] ?? '').trim());
+    const orNull = <T>(convert: (cell: string) => T) => cells.map(cell => (cell === '' ? null : convert(cell)));
+
+    switch (columnTypes[index]) {
+      case 'INTEGER':
+        return { name, data: orNull(cell => BigInt(cell)), type: 'INT64' };
+      case 'DECIMAL':
+        return { name, data: orNull(cell => Number(cell)), type: 'DOUBLE' };
+      case 'BOOLEAN':
+        return { name, data: orNull(cell => cell.toLowerCase() === 'true'), type: 'BOOLEAN' };
+      case 'DATE':
+      case 'TIMESTAMP':
+        return { name, data: orNull(cell => new Date(cell.replace(' ', 'T'))), type: 'TIMESTAMP' };
+      default:
+        return { name, data: data.map(row => row[index] ?? ''), type: 'STRING' };
+    }
+  });
+
+  return parquetWriteBuffer({ columnData });
+}
+
+/**
+ * Serialize the data in any format except CSV, which has its own dialect and
+ * encoding options (see downloadCleanedCSV)
+ */
+export async function buildExportBlob(
+  format: Exclude<ExportFormat, 'csv'>,
+  data: string[][],
+  headers: string[],
+  options: { tableName?: string } = {}
+): Promise<Blob> {
+  const { mimeType } = EXPORT_FORMATS.find(({ value }) => value === format)!;
+
+  switch (format) {
+    case 'xlsx':
+      return new Blob([await toXLSX(data, headers)], { type: mimeType });
+    case 'json':
+      return new Blob([toJSON(data, headers)], { type: mimeType });
+    case 'ndjson':
+      return new Blob([toNDJSON(data, headers)], { type: mimeType });
+    case 'parquet':
+      return new Blob([toParquet(data, headers)], { type: mimeType });
+    case 'markdown':
+      return new Blob([toMarkdown(data, headers)], { type: mimeType });
+    case 'sql':
+      return new Blob([toSQLInserts(data, headers, options.tableName || 'data')], { type: mimeType });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Web Worker that streams a file through the CSV tokenizer in chunks, so that
+ * large files can be parsed without blocking the UI thread.
+ */
+import { CSVDialect, CSVTokenizer, RaggedRowSummary, isBlankRecord, summarizeRaggedRows } from "@data-refine/core";
+
+export interface ParseRequest {
+  file: File;
+  dialect: CSVDialect;
+  encoding: string;
+}
+
+export type ParseResponse =
+  | { type: "progress"; bytesRead: number; totalBytes: number; rowsParsed: number }
+  | { type: "done"; data: string[][]; headers: string[]; ragged: RaggedRowSummary }
+  | { type: "error"; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: ParseResponse) => self.postMessage(message);
+
+async function parseFile({ file, dialect, encoding }: ParseRequest) {
+  const tokenizer = new CSVTokenizer(dialect);
+  // The decoder strips a byte order mark matching the encoding
+  const decoder = new TextDecoder(encoding);
+  const reader = file.stream().getReader();
+
+  let headers: string[] | null = null;
+  const data: string[][] = [];
+  let bytesRead = 0;
+  let lastProgress = 0;
+
+  const collect = (records: string[][]) => {
+    for (const record of records) {
+      if (isBlankRecord(record)) continue;
+      if (headers === null) {
+        headers = record.map((header) => header.trim());
+      } else {
+        data.push(record);
+      }
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    collect(tokenizer.push(decoder.decode(value, { stream: true })));
+
+    const now = Date.now();
+    if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: "progress", bytesRead, totalBytes: file.size, rowsParsed: data.length });
+    }
+  }
+
+  collect(tokenizer.push(decoder.decode()));
+  collect(tokenizer.end());
+
+  const columnCount = headers?.length ?? 0;
+  post({ type: "done", data, headers: headers ?? [], ragged: summarizeRaggedRows(data, columnCount) });
+}
+
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  parseFile(event.data).catch((error) => {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  });
+};
@@ -0,0 +1,24 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Bundles the command line entry point for Node; see cli/index.ts
+export default defineConfig({
+  // The web app's static files have no place in the command line bundle
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@data-refine/core": path.resolve(__dirname, "./packages/core/src/index.ts"),
+    },
+  },
+  build: {
+    ssr: "cli/index.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "data-refine.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});
@@ -17,6 +17,7 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@data-refine/core": path.resolve(__dirname, "./packages/core/src/index.ts"),
     },
   },
 }));